@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Star } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  type Beverage,
+  BEVERAGE_CATALOG,
+  searchBeverages,
+} from "~/lib/beverages";
+import { loadFromStorage } from "~/lib/storage";
+import { type UnitSystem, formatVolume } from "~/lib/units";
+import { cn } from "~/lib/utils";
+
+type BeveragePickerProps = {
+  idPrefix?: string;
+  // The drink as currently set up, which can be saved as a favourite
+  current: Beverage;
+  units: UnitSystem;
+  onSelect: (beverage: Beverage) => void;
+};
+
+function isSameBeverage(a: Beverage, b: Beverage): boolean {
+  return (
+    a.name === b.name &&
+    a.volume === b.volume &&
+    a.alcoholPercentage === b.alcoholPercentage
+  );
+}
+
+export function BeveragePicker({
+  idPrefix = "",
+  current,
+  units,
+  onSelect,
+}: BeveragePickerProps) {
+  const [query, setQuery] = useState("");
+  const [favourites, setFavourites] = useState<Beverage[]>(() =>
+    loadFromStorage<Beverage[]>("favouriteBeverages", []),
+  );
+
+  const handleFavouritesChange = (newFavourites: Beverage[]) => {
+    setFavourites(newFavourites);
+    localStorage.setItem("favouriteBeverages", JSON.stringify(newFavourites));
+  };
+
+  const isFavourite = (beverage: Beverage) =>
+    favourites.some((favourite) => isSameBeverage(favourite, beverage));
+
+  const toggleFavourite = (beverage: Beverage) => {
+    handleFavouritesChange(
+      isFavourite(beverage)
+        ? favourites.filter((favourite) => !isSameBeverage(favourite, beverage))
+        : [...favourites, beverage],
+    );
+  };
+
+  // Favourites come first, without repeating them from the catalog
+  const matches = searchBeverages(
+    [
+      ...favourites,
+      ...BEVERAGE_CATALOG.filter((beverage) => !isFavourite(beverage)),
+    ],
+    query,
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={`${idPrefix}beverageSearch`}>Drink</Label>
+      <Input
+        id={`${idPrefix}beverageSearch`}
+        placeholder="Search drinks, e.g. pilsner"
+        value={query}
+        onChange={(event) => {
+          setQuery(event.target.value);
+        }}
+      />
+      <div className="max-h-40 overflow-y-auto rounded-md border">
+        {matches.length === 0 ? (
+          <p className="p-3 text-sm text-muted-foreground">No drinks found.</p>
+        ) : (
+          matches.map((beverage) => (
+            <div
+              key={`${beverage.name}-${beverage.volume.toString()}-${beverage.alcoholPercentage.toString()}`}
+              className={cn(
+                "flex items-center justify-between px-3 py-1 text-sm hover:bg-muted",
+                isSameBeverage(beverage, current) && "bg-muted",
+              )}
+            >
+              <button
+                type="button"
+                className="flex-1 text-left"
+                onClick={() => {
+                  onSelect(beverage);
+                }}
+              >
+                {beverage.name}{" "}
+                <span className="text-muted-foreground">
+                  {formatVolume(beverage.volume, units)} ·{" "}
+                  {beverage.alcoholPercentage}%
+                </span>
+              </button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-muted-foreground"
+                title={
+                  isFavourite(beverage)
+                    ? "Remove from favourites"
+                    : "Add to favourites"
+                }
+                onClick={() => {
+                  toggleFavourite(beverage);
+                }}
+              >
+                <Star
+                  className={cn(
+                    "h-4 w-4",
+                    isFavourite(beverage) && "fill-current text-yellow-500",
+                  )}
+                />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+      {current.name && !isFavourite(current) && (
+        <Button
+          type="button"
+          variant="link"
+          size="sm"
+          className="h-auto px-0"
+          onClick={() => {
+            toggleFavourite(current);
+          }}
+        >
+          <Star className="mr-1 h-3 w-3" />
+          Save {current.name} ({formatVolume(current.volume, units)} ·{" "}
+          {current.alcoholPercentage}%) as a favourite
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { Gauge, Trash2 } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { toast } from "~/hooks/use-toast";
+import type { BacProfile, Drink } from "~/lib/bac";
+import {
+  type CalibrationResult,
+  type Reading,
+  type ReadingUnit,
+  calibrateProfile,
+  readingToBac,
+} from "~/lib/calibration";
+import { fromTimeInputValue, toTimeInputValue } from "~/lib/time";
+
+type BreathalyzerDialogProps = {
+  readings: Reading[];
+  drinks: Drink[];
+  profile: BacProfile;
+  bloodBreathRatio: number;
+  timeFormatter: Intl.DateTimeFormat;
+  onAddReading: (reading: Reading) => void;
+  onDeleteReading: (index: number) => void;
+  onAcceptCalibration: (result: CalibrationResult) => void;
+};
+
+export function BreathalyzerDialog({
+  readings,
+  drinks,
+  profile,
+  bloodBreathRatio,
+  timeFormatter,
+  onAddReading,
+  onDeleteReading,
+  onAcceptCalibration,
+}: BreathalyzerDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState("");
+  const [unit, setUnit] = useState<ReadingUnit>("bac");
+  const [time, setTime] = useState(() => toTimeInputValue(Date.now()));
+  const [calibration, setCalibration] = useState<
+    CalibrationResult | undefined
+  >();
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setValue("");
+      setTime(toTimeInputValue(Date.now()));
+      setCalibration(undefined);
+    }
+    setOpen(isOpen);
+  };
+
+  const handleAddReading = (event: React.FormEvent) => {
+    event.preventDefault();
+    const parsedValue = Number(value);
+    if (value === "" || Number.isNaN(parsedValue) || parsedValue < 0) {
+      return;
+    }
+
+    const timestamp = fromTimeInputValue(time, Date.now());
+    if (timestamp === undefined) {
+      toast({
+        title: "Future Time",
+        description: "That time has not happened yet.",
+      });
+      return;
+    }
+
+    onAddReading({
+      timestamp,
+      value: parsedValue,
+      unit,
+    });
+    setValue("");
+    setCalibration(undefined);
+  };
+
+  const handleCalibrate = () => {
+    const result = calibrateProfile(
+      drinks,
+      readings,
+      profile,
+      bloodBreathRatio,
+    );
+    if (!result) {
+      toast({
+        title: "Not Enough Readings",
+        description:
+          "Log at least two readings taken after your first drink to calibrate.",
+      });
+      return;
+    }
+    setCalibration(result);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <Gauge className="mr-2 h-4 w-4" />
+          Readings
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Breathalyzer Readings</DialogTitle>
+          <DialogDescription>
+            Log measurements from your own breathalyzer to compare them with the
+            estimate and to calibrate the calculations to your body.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleAddReading} className="grid gap-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="readingValue">Reading</Label>
+              <Input
+                id="readingValue"
+                type="number"
+                min={0}
+                step="any"
+                placeholder={unit === "bac" ? "0.050" : "0.25"}
+                value={value}
+                onChange={(event) => {
+                  setValue(event.target.value);
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="readingUnit">Unit</Label>
+              <Select
+                value={unit}
+                onValueChange={(newUnit: ReadingUnit) => {
+                  setUnit(newUnit);
+                }}
+              >
+                <SelectTrigger id="readingUnit">
+                  <SelectValue placeholder="Select unit" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="bac">BAC %</SelectItem>
+                  <SelectItem value="brac">BrAC mg/L</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="readingTime">Time</Label>
+              <Input
+                id="readingTime"
+                type="time"
+                value={time}
+                onChange={(event) => {
+                  setTime(event.target.value);
+                }}
+              />
+            </div>
+          </div>
+          <Button type="submit" variant="secondary">
+            Log Reading
+          </Button>
+        </form>
+
+        {readings.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Reading</TableHead>
+                <TableHead>BAC %</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {readings.map((reading, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    {timeFormatter.format(reading.timestamp)}
+                  </TableCell>
+                  <TableCell>
+                    {reading.value}
+                    {reading.unit === "bac" ? "%" : " mg/L"}
+                  </TableCell>
+                  <TableCell className="flex items-center justify-between">
+                    <span>
+                      {readingToBac(reading, bloodBreathRatio).toFixed(3)}%
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => {
+                        onDeleteReading(index);
+                        setCalibration(undefined);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {calibration && (
+          <div className="space-y-1 rounded-md border p-4 text-sm">
+            <p className="font-medium">Calibration Result</p>
+            <p className="text-muted-foreground">
+              r-factor {calibration.rFactor.toFixed(2)} (currently{" "}
+              {profile.customRFactor?.toFixed(2) ?? "automatic"}), elimination
+              rate {calibration.eliminationRate.toFixed(4)}%/h (currently{" "}
+              {profile.eliminationRate.toFixed(4)}%/h).
+            </p>
+            <p className="text-muted-foreground">
+              Fitted to {calibration.readingCount} readings with an average
+              error of {calibration.error.toFixed(3)}%.
+            </p>
+            {calibration.isAtRangeLimit && (
+              <p className="font-medium text-amber-600 dark:text-amber-500">
+                This is at the edge of the plausible range, so the readings do
+                not fit well. Check their times and values before accepting.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+          {calibration ? (
+            <Button
+              onClick={() => {
+                onAcceptCalibration(calibration);
+                setCalibration(undefined);
+                toast({
+                  title: "Calibration Applied",
+                  description:
+                    "Your r-factor and elimination rate have been updated.",
+                });
+              }}
+            >
+              Accept Calibration
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              disabled={readings.length < 2}
+              onClick={handleCalibrate}
+            >
+              Calibrate
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,352 @@
+import { useState } from "react";
+import { Martini, Plus, Trash2 } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { toast } from "~/hooks/use-toast";
+import type { Drink } from "~/lib/bac";
+import {
+  type Ingredient,
+  type Recipe,
+  DEFAULT_RECIPES,
+  mixIngredients,
+} from "~/lib/cocktails";
+import {
+  type StandardDrink,
+  formatAlcohol,
+  formatAlcoholPercentage,
+} from "~/lib/standard-drinks";
+import { loadFromStorage } from "~/lib/storage";
+import {
+  type UnitSystem,
+  formatVolume,
+  fromDisplayVolume,
+  getVolumeUnit,
+  toDisplayVolume,
+} from "~/lib/units";
+
+// An ingredient as typed, with the volume in display units
+type IngredientRow = {
+  name: string;
+  volume: string;
+  alcoholPercentage: string;
+};
+
+const EMPTY_ROW: IngredientRow = {
+  name: "",
+  volume: "",
+  alcoholPercentage: "",
+};
+
+function toRows(ingredients: Ingredient[], units: UnitSystem): IngredientRow[] {
+  return ingredients.map((ingredient) => ({
+    name: ingredient.name,
+    volume: Number(
+      toDisplayVolume(ingredient.volume, units).toFixed(1),
+    ).toString(),
+    alcoholPercentage: ingredient.alcoholPercentage.toString(),
+  }));
+}
+
+// Skips rows without a usable volume; a missing ABV counts as a mixer
+function toIngredients(rows: IngredientRow[], units: UnitSystem): Ingredient[] {
+  const ingredients: Ingredient[] = [];
+  for (const row of rows) {
+    const volume = Number.parseFloat(row.volume);
+    const alcoholPercentage = Number.parseFloat(row.alcoholPercentage);
+    if (!Number.isFinite(volume) || volume <= 0) {
+      continue;
+    }
+
+    ingredients.push({
+      name: row.name.trim() || "Ingredient",
+      volume: fromDisplayVolume(volume, units),
+      alcoholPercentage: Number.isFinite(alcoholPercentage)
+        ? Math.min(Math.max(alcoholPercentage, 0), 100)
+        : 0,
+    });
+  }
+  return ingredients;
+}
+
+type CocktailBuilderDialogProps = {
+  units: UnitSystem;
+  standardDrink: StandardDrink;
+  onLogDrink: (drink: Omit<Drink, "timestamp">) => void;
+};
+
+export function CocktailBuilderDialog({
+  units,
+  standardDrink,
+  onLogDrink,
+}: CocktailBuilderDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [rows, setRows] = useState<IngredientRow[]>([EMPTY_ROW]);
+  const [selectedRecipe, setSelectedRecipe] = useState("");
+  const [savedRecipes, setSavedRecipes] = useState<Recipe[]>(() =>
+    loadFromStorage<Recipe[]>("recipes", []),
+  );
+
+  const ingredients = toIngredients(rows, units);
+  const mixed = mixIngredients(ingredients);
+
+  const handleSavedRecipesChange = (newRecipes: Recipe[]) => {
+    setSavedRecipes(newRecipes);
+    localStorage.setItem("recipes", JSON.stringify(newRecipes));
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setName("");
+      setRows([EMPTY_ROW]);
+      setSelectedRecipe("");
+    }
+    setOpen(isOpen);
+  };
+
+  const handleRecipeChange = (value: string) => {
+    const [source, index] = value.split("-");
+    const recipe = (source === "saved" ? savedRecipes : DEFAULT_RECIPES)[
+      Number(index)
+    ];
+    if (!recipe) {
+      return;
+    }
+
+    setSelectedRecipe(value);
+    setName(recipe.name);
+    setRows(toRows(recipe.ingredients, units));
+  };
+
+  const handleRowChange = (index: number, row: Partial<IngredientRow>) => {
+    setRows(
+      rows.map((current, rowIndex) =>
+        rowIndex === index ? { ...current, ...row } : current,
+      ),
+    );
+  };
+
+  const handleSaveRecipe = () => {
+    const recipe: Recipe = { name: name.trim(), ingredients };
+    const existingIndex = savedRecipes.findIndex(
+      (saved) => saved.name === recipe.name,
+    );
+    const newRecipes =
+      existingIndex === -1
+        ? [...savedRecipes, recipe]
+        : savedRecipes.map((saved, recipeIndex) =>
+            recipeIndex === existingIndex ? recipe : saved,
+          );
+    handleSavedRecipesChange(newRecipes);
+    setSelectedRecipe(
+      `saved-${(existingIndex === -1 ? newRecipes.length - 1 : existingIndex).toString()}`,
+    );
+    toast({
+      title: "Recipe Saved",
+      description: `${recipe.name} is now in your recipes.`,
+    });
+  };
+
+  const handleDeleteRecipe = () => {
+    const index = Number(selectedRecipe.split("-")[1]);
+    handleSavedRecipesChange(
+      savedRecipes.filter((_, recipeIndex) => recipeIndex !== index),
+    );
+    setSelectedRecipe("");
+  };
+
+  const handleLogDrink = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (mixed.volume <= 0 || mixed.alcoholPercentage <= 0) {
+      return;
+    }
+
+    onLogDrink({
+      volume: mixed.volume,
+      alcoholPercentage: mixed.alcoholPercentage,
+      ...(name.trim() && { name: name.trim() }),
+      ingredients,
+    });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <Martini className="mr-2 h-4 w-4" />
+          Mix
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Mixed Drink</DialogTitle>
+          <DialogDescription>
+            List what went into your drink. It is logged as one drink with the
+            combined volume and strength.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleLogDrink} className="grid gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="recipe">Recipe</Label>
+            <Select value={selectedRecipe} onValueChange={handleRecipeChange}>
+              <SelectTrigger id="recipe">
+                <SelectValue placeholder="Start from a recipe" />
+              </SelectTrigger>
+              <SelectContent>
+                {DEFAULT_RECIPES.map((recipe, index) => (
+                  <SelectItem
+                    key={`default-${recipe.name}`}
+                    value={`default-${index.toString()}`}
+                  >
+                    {recipe.name}
+                  </SelectItem>
+                ))}
+                {savedRecipes.map((recipe, index) => (
+                  <SelectItem
+                    key={`saved-${recipe.name}`}
+                    value={`saved-${index.toString()}`}
+                  >
+                    {recipe.name} (saved)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="cocktailName">Name</Label>
+            <Input
+              id="cocktailName"
+              placeholder="e.g. Gin & Tonic"
+              value={name}
+              onChange={(event) => {
+                setName(event.target.value);
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_5rem_4rem_2rem] gap-2 text-sm font-medium">
+              <span>Ingredient</span>
+              <span>{getVolumeUnit(units)}</span>
+              <span>%</span>
+            </div>
+            {rows.map((row, index) => (
+              <div
+                key={index}
+                className="grid grid-cols-[1fr_5rem_4rem_2rem] items-center gap-2"
+              >
+                <Input
+                  aria-label="Ingredient"
+                  placeholder="e.g. Gin"
+                  value={row.name}
+                  onChange={(event) => {
+                    handleRowChange(index, { name: event.target.value });
+                  }}
+                />
+                <Input
+                  aria-label={`Volume (${getVolumeUnit(units)})`}
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={row.volume}
+                  onChange={(event) => {
+                    handleRowChange(index, { volume: event.target.value });
+                  }}
+                />
+                <Input
+                  aria-label="Alcohol %"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="any"
+                  placeholder="0"
+                  value={row.alcoholPercentage}
+                  onChange={(event) => {
+                    handleRowChange(index, {
+                      alcoholPercentage: event.target.value,
+                    });
+                  }}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                  title="Remove ingredient"
+                  disabled={rows.length === 1}
+                  onClick={() => {
+                    setRows(rows.filter((_, rowIndex) => rowIndex !== index));
+                  }}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="link"
+              size="sm"
+              className="h-auto px-0"
+              onClick={() => {
+                setRows([...rows, EMPTY_ROW]);
+              }}
+            >
+              <Plus className="mr-1 h-3 w-3" />
+              Add Ingredient
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {formatVolume(mixed.volume, units)} at{" "}
+            {formatAlcoholPercentage(mixed.alcoholPercentage)} ·{" "}
+            {formatAlcohol([mixed], standardDrink)}
+          </p>
+          <DialogFooter className="flex flex-col gap-2 sm:flex-row sm:justify-between">
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                disabled={!name.trim() || ingredients.length === 0}
+                onClick={handleSaveRecipe}
+              >
+                Save Recipe
+              </Button>
+              {selectedRecipe.startsWith("saved-") && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="text-muted-foreground hover:text-destructive"
+                  onClick={handleDeleteRecipe}
+                >
+                  Delete Recipe
+                </Button>
+              )}
+            </div>
+            <Button
+              type="submit"
+              disabled={mixed.volume <= 0 || mixed.alcoholPercentage <= 0}
+            >
+              Log Drink
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import { DrinkFields } from "~/components/drink-fields";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { toast } from "~/hooks/use-toast";
+import type { Drink } from "~/lib/bac";
+import { formatShare } from "~/lib/beverages";
+import { formatIngredients } from "~/lib/cocktails";
+import { type StandardDrink, formatAlcohol } from "~/lib/standard-drinks";
+import {
+  formatDrinkTime,
+  fromTimeInputValue,
+  toTimeInputValue,
+} from "~/lib/time";
+import type { UnitSystem } from "~/lib/units";
+
+// Keeps the exact time unless the input was changed
+function parseTime(
+  value: string,
+  original: number | undefined,
+): number | undefined {
+  return original !== undefined && value === toTimeInputValue(original)
+    ? original
+    : fromTimeInputValue(value, Date.now());
+}
+
+type DrinkDetailsDialogProps = {
+  drink: Drink;
+  timeFormatter: Intl.DateTimeFormat;
+  units: UnitSystem;
+  standardDrink: StandardDrink;
+  onClose: () => void;
+  onSave: (drink: Drink) => void;
+  onDelete: () => void;
+};
+
+export function DrinkDetailsDialog({
+  drink,
+  timeFormatter,
+  units,
+  standardDrink,
+  onClose,
+  onSave,
+  onDelete,
+}: DrinkDetailsDialogProps) {
+  // The whole container for a shared drink, of which the user drank a share
+  const [volume, setVolume] = useState(
+    drink.share?.containerVolume ?? drink.volume,
+  );
+  const shareVolume = volume * (drink.share?.fraction ?? 1);
+  const [alcoholPercentage, setAlcoholPercentage] = useState(
+    drink.alcoholPercentage,
+  );
+  // A mixed drink no longer matches its ingredients once either is changed
+  const ingredients =
+    volume === (drink.share?.containerVolume ?? drink.volume) &&
+    alcoholPercentage === drink.alcoholPercentage
+      ? drink.ingredients
+      : undefined;
+  const [time, setTime] = useState(() => toTimeInputValue(drink.timestamp));
+  const [startTime, setStartTime] = useState(() =>
+    drink.startTimestamp === undefined
+      ? ""
+      : toTimeInputValue(drink.startTimestamp),
+  );
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    const timestamp = drink.isInProgress
+      ? drink.timestamp
+      : parseTime(time, drink.timestamp);
+    let startTimestamp =
+      startTime === "" ? undefined : parseTime(startTime, drink.startTimestamp);
+    if (
+      timestamp === undefined ||
+      (startTime !== "" && startTimestamp === undefined)
+    ) {
+      toast({
+        title: "Future Time",
+        description: "That time has not happened yet.",
+      });
+      return;
+    }
+
+    if (drink.isInProgress) {
+      startTimestamp ??= drink.startTimestamp;
+    } else if (startTimestamp !== undefined) {
+      startTimestamp = Math.min(startTimestamp, timestamp);
+    }
+
+    onSave({
+      ...drink,
+      timestamp,
+      startTimestamp,
+      volume: shareVolume,
+      alcoholPercentage,
+      ingredients,
+      ...(drink.share && {
+        share: { ...drink.share, containerVolume: volume },
+      }),
+    });
+  };
+
+  return (
+    <Dialog
+      open={true}
+      onOpenChange={(open) => {
+        if (!open) {
+          onClose();
+        }
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {drink.name ?? "Drink"} at {formatDrinkTime(drink, timeFormatter)}
+          </DialogTitle>
+          <DialogDescription>
+            {formatAlcohol(
+              [{ volume: shareVolume, alcoholPercentage }],
+              standardDrink,
+            )}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSave}>
+          <div className="grid gap-4 py-4">
+            {drink.share && (
+              <p className="text-sm text-muted-foreground">
+                Your share is{" "}
+                {formatShare(
+                  { ...drink.share, containerVolume: volume },
+                  units,
+                )}
+              </p>
+            )}
+            {ingredients && (
+              <p className="text-sm text-muted-foreground">
+                Mixed from {formatIngredients(ingredients, units)}
+              </p>
+            )}
+            <DrinkFields
+              idPrefix="details-"
+              isContainer={drink.share !== undefined}
+              volume={volume}
+              alcoholPercentage={alcoholPercentage}
+              units={units}
+              onChange={(values) => {
+                setVolume(values.volume);
+                setAlcoholPercentage(values.alcoholPercentage);
+              }}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="details-start-time">
+                  Started At{!drink.isInProgress && " (optional)"}
+                </Label>
+                <Input
+                  id="details-start-time"
+                  type="time"
+                  value={startTime}
+                  onChange={(event) => {
+                    setStartTime(event.target.value);
+                  }}
+                />
+              </div>
+              {!drink.isInProgress && (
+                <div className="space-y-2">
+                  <Label htmlFor="details-time">Finished At</Label>
+                  <Input
+                    id="details-time"
+                    type="time"
+                    value={time}
+                    onChange={(event) => {
+                      setTime(event.target.value);
+                    }}
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+          <DialogFooter className="flex flex-col gap-2 sm:flex-row sm:justify-between">
+            <Button type="button" variant="destructive" onClick={onDelete}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+            <Button type="submit">Save Changes</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
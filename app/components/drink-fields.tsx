@@ -0,0 +1,329 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "~/components/ui/form";
+import { Input } from "~/components/ui/input";
+import { Slider } from "~/components/ui/slider";
+import {
+  type UnitSystem,
+  formatVolume,
+  fromDisplayVolume,
+  getVolumeUnit,
+  toDisplayVolume,
+} from "~/lib/units";
+
+// What can be entered at all; volumes in ml
+const VOLUME_LIMITS = { min: 1, max: 5000 } as const;
+const ALCOHOL_PERCENTAGE_LIMITS = { min: 0.1, max: 100 } as const;
+
+// Values outside these ask for confirmation, as they are likely typos
+const NORMAL_VOLUME = { min: 20, max: 1000 } as const;
+const NORMAL_ALCOHOL_PERCENTAGE = { min: 0.5, max: 70 } as const;
+
+// Slider bounds and step in the unit the volume is entered in
+const VOLUME_RANGES = {
+  metric: { min: 20, max: 1000, step: 10 },
+  us: { min: 1, max: 34, step: 0.5 },
+  uk: { min: 1, max: 35, step: 0.5 },
+} as const;
+
+function createSchema(units: UnitSystem) {
+  const minVolume = toDisplayVolume(VOLUME_LIMITS.min, units);
+  const maxVolume = toDisplayVolume(VOLUME_LIMITS.max, units);
+  return z.object({
+    volume: z.coerce
+      .number({ invalid_type_error: "Enter a volume" })
+      .min(minVolume, `At least ${formatVolume(VOLUME_LIMITS.min, units)}`)
+      .max(maxVolume, `At most ${formatVolume(VOLUME_LIMITS.max, units)}`),
+    alcoholPercentage: z.coerce
+      .number({ invalid_type_error: "Enter a percentage" })
+      .min(
+        ALCOHOL_PERCENTAGE_LIMITS.min,
+        `At least ${ALCOHOL_PERCENTAGE_LIMITS.min.toString()}%`,
+      )
+      .max(
+        ALCOHOL_PERCENTAGE_LIMITS.max,
+        `At most ${ALCOHOL_PERCENTAGE_LIMITS.max.toString()}%`,
+      ),
+  });
+}
+
+type DrinkValues = { volume: number; alcoholPercentage: number };
+
+// Rounded so the typed field shows what the slider shows, and a mixed drink
+// shows 9.2% rather than 9.1666…%
+function toFormValues(values: DrinkValues, units: UnitSystem): DrinkValues {
+  return {
+    volume: Number(toDisplayVolume(values.volume, units).toFixed(1)),
+    alcoholPercentage: Number(values.alcoholPercentage.toFixed(1)),
+  };
+}
+
+// Only changed values are described, so a confirmed one is not asked again
+function describeUnusualValues(
+  values: DrinkValues,
+  previous: DrinkValues,
+  units: UnitSystem,
+  maxVolume: number,
+): string | undefined {
+  const descriptions: string[] = [];
+  if (
+    values.volume !== previous.volume &&
+    (values.volume < NORMAL_VOLUME.min || values.volume > maxVolume)
+  ) {
+    descriptions.push(`a volume of ${formatVolume(values.volume, units)}`);
+  }
+  if (
+    values.alcoholPercentage !== previous.alcoholPercentage &&
+    (values.alcoholPercentage < NORMAL_ALCOHOL_PERCENTAGE.min ||
+      values.alcoholPercentage > NORMAL_ALCOHOL_PERCENTAGE.max)
+  ) {
+    descriptions.push(`${values.alcoholPercentage.toString()}% alcohol`);
+  }
+  return descriptions.length > 0 ? descriptions.join(" and ") : undefined;
+}
+
+function clamp(value: number, range: { min: number; max: number }): number {
+  return Math.min(Math.max(value, range.min), range.max);
+}
+
+type DrinkFieldsProps = {
+  idPrefix?: string;
+  // The volume is a whole bottle or pitcher, which may be large
+  isContainer?: boolean;
+  volume: number;
+  alcoholPercentage: number;
+  units: UnitSystem;
+  onChange: (values: { volume: number; alcoholPercentage: number }) => void;
+};
+
+export function DrinkFields({
+  idPrefix = "",
+  isContainer = false,
+  volume,
+  alcoholPercentage,
+  units,
+  onChange,
+}: DrinkFieldsProps) {
+  const volumeRange = VOLUME_RANGES[units];
+  const maxNormalVolume = isContainer ? VOLUME_LIMITS.max : NORMAL_VOLUME.max;
+  const formValues = toFormValues({ volume, alcoholPercentage }, units);
+  const schema = createSchema(units);
+  const form = useForm<DrinkValues>({
+    resolver: zodResolver(schema),
+    mode: "onChange",
+    values: formValues,
+  });
+  // Typed values outside the normal ranges, waiting to be confirmed
+  const [pendingValues, setPendingValues] = useState<DrinkValues>();
+  const pendingDescription =
+    pendingValues &&
+    describeUnusualValues(
+      pendingValues,
+      { volume, alcoholPercentage },
+      units,
+      maxNormalVolume,
+    );
+
+  // Typed values are applied when leaving the field, so partial input such
+  // as `0.` is not rounded away while typing. This happens synchronously, so
+  // a submit button clicked right after sees the new values or the prompt.
+  const handleValid = (values: DrinkValues) => {
+    if (
+      values.volume === formValues.volume &&
+      values.alcoholPercentage === formValues.alcoholPercentage
+    ) {
+      return;
+    }
+
+    const newValues = {
+      volume:
+        values.volume === formValues.volume
+          ? volume
+          : fromDisplayVolume(values.volume, units),
+      alcoholPercentage:
+        values.alcoholPercentage === formValues.alcoholPercentage
+          ? alcoholPercentage
+          : values.alcoholPercentage,
+    };
+    if (
+      describeUnusualValues(
+        newValues,
+        { volume, alcoholPercentage },
+        units,
+        maxNormalVolume,
+      )
+    ) {
+      setPendingValues(newValues);
+      return;
+    }
+
+    onChange(newValues);
+  };
+
+  const applyTypedValues = () => {
+    const result = schema.safeParse(form.getValues());
+    if (result.success) {
+      handleValid(result.data);
+    } else {
+      void form.trigger();
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      applyTypedValues();
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <FormField
+        control={form.control}
+        name="volume"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>
+              {isContainer ? "Bottle or Pitcher" : "Volume"} (
+              {getVolumeUnit(units)})
+            </FormLabel>
+            <div className="flex items-center gap-4">
+              <Slider
+                id={`${idPrefix}volume`}
+                aria-label="Volume"
+                min={volumeRange.min}
+                max={volumeRange.max}
+                step={volumeRange.step}
+                value={[clamp(toDisplayVolume(volume, units), volumeRange)]}
+                onValueChange={(value) => {
+                  onChange({
+                    volume: fromDisplayVolume(value[0]!, units),
+                    alcoholPercentage,
+                  });
+                }}
+                className="flex-1"
+              />
+              <FormControl>
+                <Input
+                  {...field}
+                  type="number"
+                  inputMode="decimal"
+                  step="any"
+                  className="w-24 text-right"
+                  onBlur={applyTypedValues}
+                  onKeyDown={handleKeyDown}
+                />
+              </FormControl>
+            </div>
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Shot</span>
+              <span>Large Beer</span>
+              <span>Stein</span>
+            </div>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="alcoholPercentage"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Alcohol %</FormLabel>
+            <div className="flex items-center gap-4">
+              <Slider
+                id={`${idPrefix}alcoholPercentage`}
+                aria-label="Alcohol %"
+                min={NORMAL_ALCOHOL_PERCENTAGE.min}
+                max={NORMAL_ALCOHOL_PERCENTAGE.max}
+                step={0.5}
+                value={[clamp(alcoholPercentage, NORMAL_ALCOHOL_PERCENTAGE)]}
+                onValueChange={(value) => {
+                  onChange({ volume, alcoholPercentage: value[0]! });
+                }}
+                className="flex-1"
+              />
+              <FormControl>
+                <Input
+                  {...field}
+                  type="number"
+                  inputMode="decimal"
+                  step="any"
+                  className="w-24 text-right"
+                  onBlur={applyTypedValues}
+                  onKeyDown={handleKeyDown}
+                />
+              </FormControl>
+            </div>
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Kombucha</span>
+              <span>Spirit</span>
+              <span>Overproof</span>
+            </div>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <Dialog
+        open={pendingDescription !== undefined}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPendingValues(undefined);
+            form.reset(formValues);
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Unusual Drink</DialogTitle>
+            <DialogDescription>
+              You entered {pendingDescription}, which is outside the usual
+              range. Is that right?
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                setPendingValues(undefined);
+                form.reset(formValues);
+              }}
+            >
+              Change It
+            </Button>
+            <Button
+              type="button"
+              onClick={() => {
+                if (pendingValues) {
+                  onChange(pendingValues);
+                }
+                setPendingValues(undefined);
+              }}
+            >
+              Yes, Keep It
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Form>
+  );
+}
@@ -0,0 +1,138 @@
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Slider } from "~/components/ui/slider";
+import {
+  type DriverCategory,
+  type Jurisdiction,
+  DRIVER_CATEGORIES,
+  JURISDICTIONS,
+  getLegalLimit,
+} from "~/lib/jurisdictions";
+import {
+  type BacUnit,
+  formatBac,
+  fromDisplayBac,
+  toDisplayBac,
+} from "~/lib/units";
+
+// Limit slider step in the unit the BAC is displayed in
+const BAC_LIMIT_STEPS: Record<BacUnit, number> = {
+  percent: 0.01,
+  permille: 0.1,
+  gPerL: 0.1,
+  mgPer100ml: 10,
+  brac: 0.01,
+};
+
+type JurisdictionSettingsProps = {
+  jurisdiction?: Jurisdiction;
+  driverCategory: DriverCategory;
+  bacLimit: number;
+  bacUnit: BacUnit;
+  bloodBreathRatio: number;
+  // Picking a jurisdiction also sets its limit, and moving the limit by hand
+  // switches back to a custom one
+  onChange: (values: {
+    jurisdiction?: Jurisdiction;
+    driverCategory?: DriverCategory;
+    bacLimit?: number;
+  }) => void;
+};
+
+export function JurisdictionSettings({
+  jurisdiction,
+  driverCategory,
+  bacLimit,
+  bacUnit,
+  bloodBreathRatio,
+  onChange,
+}: JurisdictionSettingsProps) {
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="jurisdiction">Jurisdiction</Label>
+          <Select
+            value={jurisdiction ?? "custom"}
+            onValueChange={(value: Jurisdiction | "custom") => {
+              onChange(
+                value === "custom"
+                  ? { jurisdiction: undefined }
+                  : {
+                      jurisdiction: value,
+                      bacLimit: getLegalLimit(value, driverCategory),
+                    },
+              );
+            }}
+          >
+            <SelectTrigger id="jurisdiction">
+              <SelectValue placeholder="Select jurisdiction" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="custom">Custom</SelectItem>
+              {Object.entries(JURISDICTIONS).map(([value, { label }]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="driverCategory">Driver</Label>
+          <Select
+            value={driverCategory}
+            onValueChange={(value: DriverCategory) => {
+              onChange({
+                driverCategory: value,
+                ...(jurisdiction && {
+                  bacLimit: getLegalLimit(jurisdiction, value),
+                }),
+              });
+            }}
+          >
+            <SelectTrigger id="driverCategory">
+              <SelectValue placeholder="Select driver" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(DRIVER_CATEGORIES).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="bacLimit">Legal BAC Limit</Label>
+        <div className="flex items-center gap-4">
+          <Slider
+            id="bacLimit"
+            min={0}
+            max={toDisplayBac(0.1, bacUnit, bloodBreathRatio)}
+            step={BAC_LIMIT_STEPS[bacUnit]}
+            value={[toDisplayBac(bacLimit, bacUnit, bloodBreathRatio)]}
+            onValueChange={(value) => {
+              onChange({
+                bacLimit: fromDisplayBac(value[0]!, bacUnit, bloodBreathRatio),
+                jurisdiction: undefined,
+              });
+            }}
+            className="flex-1"
+          />
+          <span className="w-28 text-right text-sm text-muted-foreground">
+            {formatBac(bacLimit, bacUnit, bloodBreathRatio)}
+          </span>
+        </div>
+      </div>
+    </>
+  );
+}
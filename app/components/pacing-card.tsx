@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Hourglass, SlidersHorizontal } from "lucide-react";
+import { DrinkFields } from "~/components/drink-fields";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+import { Label } from "~/components/ui/label";
+import { Slider } from "~/components/ui/slider";
+import { toast } from "~/hooks/use-toast";
+import {
+  type BacProfile,
+  type Drink,
+  resolveInProgressDrinks,
+} from "~/lib/bac";
+import { calculateNextDrinkTime } from "~/lib/solver";
+import { loadFromStorage } from "~/lib/storage";
+import { formatCountdown } from "~/lib/time";
+import { type UnitSystem, formatVolume } from "~/lib/units";
+
+type PacingSettings = {
+  enabled: boolean;
+  targetPeak: number;
+  volume: number;
+  alcoholPercentage: number;
+};
+
+const DEFAULT_PACING_SETTINGS: PacingSettings = {
+  enabled: false,
+  targetPeak: 0.05,
+  volume: 500,
+  alcoholPercentage: 5,
+};
+
+type PacingCardProps = {
+  // As logged, so drinks in progress are resolved at the minute searched from
+  drinks: Drink[];
+  profile: BacProfile;
+  currentTime: number;
+  timeFormatter: Intl.DateTimeFormat;
+  units: UnitSystem;
+};
+
+export function PacingCard({
+  drinks,
+  profile,
+  currentTime,
+  timeFormatter,
+  units,
+}: PacingCardProps) {
+  const [open, setOpen] = useState(false);
+  const [pacing, setPacing] = useState<PacingSettings>(() => ({
+    ...DEFAULT_PACING_SETTINGS,
+    ...loadFromStorage<Partial<PacingSettings>>("pacing", {}),
+  }));
+
+  const handlePacingChange = (newPacing: Partial<PacingSettings>) => {
+    const updatedPacing = { ...pacing, ...newPacing };
+    setPacing(updatedPacing);
+    localStorage.setItem("pacing", JSON.stringify(updatedPacing));
+  };
+
+  // The search runs many simulations, so only redo it once a minute and let
+  // the countdown tick in between
+  const currentMinute = Math.floor(currentTime / 60_000) * 60_000;
+  const nextDrink = useMemo(
+    () =>
+      pacing.enabled
+        ? calculateNextDrinkTime(
+            resolveInProgressDrinks(drinks, currentMinute),
+            {
+              volume: pacing.volume,
+              alcoholPercentage: pacing.alcoholPercentage,
+            },
+            profile,
+            { now: currentMinute, targetPeak: pacing.targetPeak },
+          )
+        : undefined,
+    [drinks, pacing, profile, currentMinute],
+  );
+  const nextDrinkTime = nextDrink?.time;
+
+  const isWaiting = nextDrinkTime !== undefined && nextDrinkTime > currentTime;
+
+  // Let the user know the moment the waiting is over
+  const wasWaiting = useRef(false);
+  useEffect(() => {
+    if (wasWaiting.current && !isWaiting && nextDrinkTime !== undefined) {
+      toast({
+        title: "Ready for the Next Drink",
+        description: `You can have ${formatVolume(pacing.volume, units)} with ${pacing.alcoholPercentage.toString()}% alcohol and stay under ${pacing.targetPeak.toFixed(3)}%.`,
+      });
+    }
+    wasWaiting.current = isWaiting;
+  }, [isWaiting, nextDrinkTime, pacing, units]);
+
+  let status: string;
+  if (nextDrinkTime === undefined) {
+    status = "This drink alone would exceed your target peak.";
+  } else if (isWaiting) {
+    status = `Next ${formatVolume(pacing.volume, units)} @ ${pacing.alcoholPercentage.toString()}% at ${timeFormatter.format(nextDrinkTime)}`;
+    if (nextDrink?.isAboveTarget) {
+      status = `You are already above your target peak. ${status}`;
+    }
+  } else {
+    status = `You can have a ${formatVolume(pacing.volume, units)} @ ${pacing.alcoholPercentage.toString()}% drink now`;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">Pacing Assistant</CardTitle>
+        <div className="flex items-center gap-2">
+          <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+              <button className="text-muted-foreground hover:text-foreground">
+                <SlidersHorizontal className="h-4 w-4" />
+                <span className="sr-only">Configure</span>
+              </button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Pacing Assistant</DialogTitle>
+                <DialogDescription>
+                  Set the highest BAC you want to reach and the drink you plan
+                  to have next.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="grid gap-4 py-4">
+                <div className="space-y-2">
+                  <Label htmlFor="targetPeak">Target Peak BAC (%)</Label>
+                  <div className="flex items-center gap-4">
+                    <Slider
+                      id="targetPeak"
+                      min={0.02}
+                      max={0.15}
+                      step={0.005}
+                      value={[pacing.targetPeak]}
+                      onValueChange={(value) => {
+                        handlePacingChange({ targetPeak: value[0]! });
+                      }}
+                      className="flex-1"
+                    />
+                    <span className="w-16 text-right text-sm text-muted-foreground">
+                      {pacing.targetPeak.toFixed(3)}%
+                    </span>
+                  </div>
+                </div>
+                <DrinkFields
+                  idPrefix="pacing-"
+                  volume={pacing.volume}
+                  alcoholPercentage={pacing.alcoholPercentage}
+                  units={units}
+                  onChange={handlePacingChange}
+                />
+              </div>
+              <DialogFooter>
+                <Button
+                  onClick={() => {
+                    setOpen(false);
+                  }}
+                >
+                  Done
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+          <Hourglass className="h-4 w-4 text-muted-foreground" />
+        </div>
+      </CardHeader>
+      <CardContent className="flex items-end justify-between gap-4">
+        {pacing.enabled ? (
+          <div>
+            <div className="text-2xl font-bold">
+              {nextDrinkTime !== undefined && isWaiting
+                ? formatCountdown(nextDrinkTime - currentTime)
+                : "—"}
+            </div>
+            <p className="text-xs text-muted-foreground">{status}</p>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Get told when your next drink keeps you under a target peak of{" "}
+            {pacing.targetPeak.toFixed(3)}%.
+          </p>
+        )}
+        <Button
+          size="sm"
+          variant={pacing.enabled ? "outline" : "default"}
+          onClick={() => {
+            handlePacingChange({ enabled: !pacing.enabled });
+          }}
+        >
+          {pacing.enabled ? "Stop" : "Start"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
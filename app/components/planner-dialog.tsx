@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { CalendarClock, Check, Trash2 } from "lucide-react";
+import { DrinkFields } from "~/components/drink-fields";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import type { Drink } from "~/lib/bac";
+import { formatAlcoholPercentage } from "~/lib/standard-drinks";
+import { fromFutureTimeInputValue, toTimeInputValue } from "~/lib/time";
+import { type UnitSystem, formatVolume } from "~/lib/units";
+
+type PlannerDialogProps = {
+  plannedDrinks: Drink[];
+  timeFormatter: Intl.DateTimeFormat;
+  units: UnitSystem;
+  onAddPlannedDrink: (drink: Drink) => void;
+  onDeletePlannedDrink: (index: number) => void;
+  onLogPlannedDrink: (index: number) => void;
+};
+
+export function PlannerDialog({
+  plannedDrinks,
+  timeFormatter,
+  units,
+  onAddPlannedDrink,
+  onDeletePlannedDrink,
+  onLogPlannedDrink,
+}: PlannerDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [volume, setVolume] = useState(500);
+  const [alcoholPercentage, setAlcoholPercentage] = useState(5);
+  const [time, setTime] = useState(() =>
+    toTimeInputValue(Date.now() + 60 * 60 * 1000),
+  );
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setTime(toTimeInputValue(Date.now() + 60 * 60 * 1000));
+    }
+    setOpen(isOpen);
+  };
+
+  const handleAddPlannedDrink = (event: React.FormEvent) => {
+    event.preventDefault();
+    onAddPlannedDrink({
+      timestamp: fromFutureTimeInputValue(time, Date.now()),
+      volume,
+      alcoholPercentage,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <CalendarClock className="mr-2 h-4 w-4" />
+          Plan
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>What-If Planner</DialogTitle>
+          <DialogDescription>
+            Plan drinks you might have later to see how they would affect your
+            BAC. Planned drinks are not part of your log until you log them.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleAddPlannedDrink} className="grid gap-4">
+          <DrinkFields
+            idPrefix="planned-"
+            volume={volume}
+            alcoholPercentage={alcoholPercentage}
+            units={units}
+            onChange={(values) => {
+              setVolume(values.volume);
+              setAlcoholPercentage(values.alcoholPercentage);
+            }}
+          />
+          <div className="space-y-2">
+            <Label htmlFor="plannedTime">Time</Label>
+            <Input
+              id="plannedTime"
+              type="time"
+              value={time}
+              onChange={(event) => {
+                setTime(event.target.value);
+              }}
+            />
+          </div>
+          <Button type="submit" variant="secondary">
+            Add to Plan
+          </Button>
+        </form>
+
+        {plannedDrinks.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Volume</TableHead>
+                <TableHead>Alcohol %</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plannedDrinks.map((drink, index) => (
+                <TableRow key={index}>
+                  <TableCell>{timeFormatter.format(drink.timestamp)}</TableCell>
+                  <TableCell>{formatVolume(drink.volume, units)}</TableCell>
+                  <TableCell className="flex items-center justify-between">
+                    <span>
+                      {formatAlcoholPercentage(drink.alcoholPercentage)}
+                    </span>
+                    <div className="flex">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground"
+                        title="Log now"
+                        onClick={() => {
+                          onLogPlannedDrink(index);
+                        }}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                        title="Remove from plan"
+                        onClick={() => {
+                          onDeletePlannedDrink(index);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => {
+              setOpen(false);
+            }}
+          >
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+import { useMemo, useState } from "react";
+import { SlidersHorizontal } from "lucide-react";
+import { DrinkFields } from "~/components/drink-fields";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  type BacProfile,
+  type Drink,
+  type LegalEstimateOptions,
+  resolveInProgressDrinks,
+} from "~/lib/bac";
+import { calculateRemainingDrinks } from "~/lib/solver";
+import { fromFutureTimeInputValue, toTimeInputValue } from "~/lib/time";
+import { type UnitSystem, formatVolume } from "~/lib/units";
+
+type RemainingDrinksCardProps = {
+  // As logged, so drinks in progress are resolved at the minute searched from
+  drinks: Drink[];
+  settings: BacProfile & LegalEstimateOptions;
+  currentTime: number;
+  timeFormatter: Intl.DateTimeFormat;
+  units: UnitSystem;
+};
+
+export function RemainingDrinksCard({
+  drinks,
+  settings,
+  currentTime,
+  timeFormatter,
+  units,
+}: RemainingDrinksCardProps) {
+  const [open, setOpen] = useState(false);
+  const [volume, setVolume] = useState(500);
+  const [alcoholPercentage, setAlcoholPercentage] = useState(5);
+  const [paceMinutes, setPaceMinutes] = useState(0);
+  const [targetTime, setTargetTime] = useState(() =>
+    toTimeInputValue(Date.now() + 4 * 60 * 60 * 1000),
+  );
+
+  // Searching is expensive, so only redo it once a minute
+  const currentMinute = Math.floor(currentTime / 60_000) * 60_000;
+  const targetTimestamp = fromFutureTimeInputValue(targetTime, currentMinute);
+  const result = useMemo(
+    () =>
+      calculateRemainingDrinks(
+        resolveInProgressDrinks(drinks, currentMinute),
+        { volume, alcoholPercentage },
+        settings,
+        {
+          ...settings,
+          now: currentMinute,
+          targetTime: targetTimestamp,
+          paceMinutes,
+        },
+      ),
+    [
+      drinks,
+      volume,
+      alcoholPercentage,
+      settings,
+      currentMinute,
+      targetTimestamp,
+      paceMinutes,
+    ],
+  );
+
+  const formattedTarget = timeFormatter.format(targetTimestamp);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">Drinks Left</CardTitle>
+        <Dialog open={open} onOpenChange={setOpen}>
+          <DialogTrigger asChild>
+            <button className="text-muted-foreground hover:text-foreground">
+              <SlidersHorizontal className="h-4 w-4" />
+              <span className="sr-only">Configure</span>
+            </button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>How Much Can I Still Drink?</DialogTitle>
+              <DialogDescription>
+                Choose a drink and the time you need to be under your legal
+                limit by.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <DrinkFields
+                idPrefix="remaining-"
+                volume={volume}
+                alcoholPercentage={alcoholPercentage}
+                units={units}
+                onChange={(values) => {
+                  setVolume(values.volume);
+                  setAlcoholPercentage(values.alcoholPercentage);
+                }}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="remainingTarget">Legal By</Label>
+                  <Input
+                    id="remainingTarget"
+                    type="time"
+                    value={targetTime}
+                    onChange={(event) => {
+                      setTargetTime(event.target.value);
+                    }}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="remainingPace">Pace</Label>
+                  <Select
+                    value={paceMinutes.toString(10)}
+                    onValueChange={(value) => {
+                      setPaceMinutes(Number(value));
+                    }}
+                  >
+                    <SelectTrigger id="remainingPace">
+                      <SelectValue placeholder="Select pace" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0">All now</SelectItem>
+                      <SelectItem value="30">Every 30 min</SelectItem>
+                      <SelectItem value="45">Every 45 min</SelectItem>
+                      <SelectItem value="60">Every hour</SelectItem>
+                      <SelectItem value="90">Every 90 min</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                onClick={() => {
+                  setOpen(false);
+                }}
+              >
+                Done
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">{result.count}</div>
+        <p className="text-xs text-muted-foreground">
+          {result.isReachable
+            ? `× ${formatVolume(volume, units)} @ ${alcoholPercentage.toString()}% to be legal by ${formattedTarget}`
+            : `Not legal by ${formattedTarget} even without more drinks`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
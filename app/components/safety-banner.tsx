@@ -0,0 +1,85 @@
+import { Phone, TriangleAlert } from "lucide-react";
+import { cn } from "~/lib/utils";
+import {
+  type EmergencyRegion,
+  type WarningSeverity,
+  EMERGENCY_RESOURCES,
+  WARNING_MESSAGES,
+} from "~/lib/safety";
+
+type SafetyBannerProps = {
+  peakWarning?: WarningSeverity;
+  // Standard drinks in the last hour, set when over the configured rate
+  rapidDrinking?: { count: number; limit: number; unit: string };
+  emergencyRegion?: EmergencyRegion;
+};
+
+export function SafetyBanner({
+  peakWarning,
+  rapidDrinking,
+  emergencyRegion,
+}: SafetyBannerProps) {
+  if (!peakWarning && !rapidDrinking) {
+    return;
+  }
+
+  const isSevere = peakWarning === "danger" || peakWarning === "emergency";
+  const resources =
+    emergencyRegion && isSevere
+      ? EMERGENCY_RESOURCES[emergencyRegion]
+      : undefined;
+
+  return (
+    <div
+      role="alert"
+      className={cn(
+        "flex gap-3 rounded-lg border p-4 text-sm",
+        isSevere
+          ? "border-destructive/50 bg-destructive/10 text-destructive"
+          : "border-yellow-500/50 bg-yellow-500/10 text-yellow-700 dark:text-yellow-400",
+      )}
+    >
+      <TriangleAlert className="mt-0.5 h-4 w-4 shrink-0" />
+      <div className="space-y-2">
+        {peakWarning && (
+          <div>
+            <p className="font-medium">{WARNING_MESSAGES[peakWarning].title}</p>
+            <p>{WARNING_MESSAGES[peakWarning].description}</p>
+          </div>
+        )}
+        {rapidDrinking && (
+          <div>
+            <p className="font-medium">Drinking Fast</p>
+            <p>
+              You had {rapidDrinking.count.toFixed(1)} {rapidDrinking.unit}s in
+              the last hour, more than your limit of {rapidDrinking.limit}. Your
+              BAC keeps rising for a while after your last drink.
+            </p>
+          </div>
+        )}
+        {resources && (
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+            <a
+              href={`tel:${resources.phone}`}
+              className="flex items-center gap-1 font-medium underline"
+            >
+              <Phone className="h-4 w-4" />
+              Emergency {resources.phone}
+            </a>
+            {resources.links.map((link) => (
+              <a
+                key={link.url}
+                href={link.url}
+                target="_blank"
+                rel="noreferrer"
+                className="underline"
+              >
+                {link.label}
+              </a>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  type BacUnit,
+  BAC_UNITS,
+  formatBac,
+  fromDisplayBac,
+} from "~/lib/units";
+
+/**
+ * An extra line drawn on the chart, e.g. a personal "stop drinking" target.
+ */
+export type BacThreshold = {
+  label: string;
+  bac: number;
+};
+
+type ThresholdSettingsProps = {
+  thresholds: BacThreshold[];
+  bacUnit: BacUnit;
+  bloodBreathRatio: number;
+  onChange: (thresholds: BacThreshold[]) => void;
+};
+
+export function ThresholdSettings({
+  thresholds,
+  bacUnit,
+  bloodBreathRatio,
+  onChange,
+}: ThresholdSettingsProps) {
+  const [label, setLabel] = useState("");
+  const [value, setValue] = useState("");
+
+  const handleAddThreshold = () => {
+    const parsedValue = Number(value);
+    if (value === "" || Number.isNaN(parsedValue) || parsedValue <= 0) {
+      return;
+    }
+
+    onChange(
+      [
+        ...thresholds,
+        {
+          label: label.trim() || "Threshold",
+          bac: fromDisplayBac(parsedValue, bacUnit, bloodBreathRatio),
+        },
+      ].sort((a, b) => a.bac - b.bac),
+    );
+    setLabel("");
+    setValue("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="thresholdLabel">Chart Thresholds</Label>
+      {thresholds.map((threshold, index) => (
+        <div
+          key={index}
+          className="flex items-center justify-between text-sm text-muted-foreground"
+        >
+          <span>
+            {threshold.label} at{" "}
+            {formatBac(threshold.bac, bacUnit, bloodBreathRatio)}
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+            onClick={() => {
+              onChange(
+                thresholds.filter((_, otherIndex) => otherIndex !== index),
+              );
+            }}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <Input
+          id="thresholdLabel"
+          placeholder="Stop drinking"
+          value={label}
+          onChange={(event) => {
+            setLabel(event.target.value);
+          }}
+        />
+        <Input
+          type="number"
+          min={0}
+          step="any"
+          placeholder={BAC_UNITS[bacUnit].suffix.trim()}
+          className="w-28"
+          value={value}
+          onChange={(event) => {
+            setValue(event.target.value);
+          }}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          className="shrink-0"
+          onClick={handleAddThreshold}
+        >
+          <Plus className="h-4 w-4" />
+          <span className="sr-only">Add threshold</span>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Slider } from "~/components/ui/slider";
+import {
+  type EmergencyRegion,
+  type WarningLevels,
+  EMERGENCY_RESOURCES,
+} from "~/lib/safety";
+import { type BacUnit, formatBac } from "~/lib/units";
+
+type WarningSettingsProps = {
+  warningLevels: WarningLevels;
+  rapidDrinkingLimit: number;
+  emergencyRegion?: EmergencyRegion;
+  bacUnit: BacUnit;
+  bloodBreathRatio: number;
+  onChange: (values: {
+    warningLevels?: WarningLevels;
+    rapidDrinkingLimit?: number;
+    emergencyRegion?: EmergencyRegion;
+  }) => void;
+};
+
+export function WarningSettings({
+  warningLevels,
+  rapidDrinkingLimit,
+  emergencyRegion,
+  bacUnit,
+  bloodBreathRatio,
+  onChange,
+}: WarningSettingsProps) {
+  return (
+    <>
+      <div className="space-y-2">
+        <Label>Warn When Peak BAC Reaches</Label>
+        {(["caution", "danger", "emergency"] as const).map((severity) => (
+          <div key={severity} className="flex items-center gap-4">
+            <span className="w-20 text-sm capitalize">{severity}</span>
+            <Slider
+              min={0.05}
+              max={0.4}
+              step={0.01}
+              value={[warningLevels[severity]]}
+              onValueChange={(value) => {
+                onChange({
+                  warningLevels: {
+                    ...warningLevels,
+                    [severity]: value[0]!,
+                  },
+                });
+              }}
+              className="flex-1"
+            />
+            <span className="w-28 text-right text-sm text-muted-foreground">
+              {formatBac(warningLevels[severity], bacUnit, bloodBreathRatio)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="rapidDrinkingLimit">
+          Warn Above (Standard Drinks per Hour)
+        </Label>
+        <div className="flex items-center gap-4">
+          <Slider
+            id="rapidDrinkingLimit"
+            min={1}
+            max={8}
+            step={0.5}
+            value={[rapidDrinkingLimit]}
+            onValueChange={(value) => {
+              onChange({ rapidDrinkingLimit: value[0]! });
+            }}
+            className="flex-1"
+          />
+          <span className="w-12 text-right text-sm text-muted-foreground">
+            {rapidDrinkingLimit}
+          </span>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="emergencyRegion">Emergency Guidance</Label>
+        <Select
+          value={emergencyRegion ?? "none"}
+          onValueChange={(value: EmergencyRegion | "none") => {
+            onChange({
+              emergencyRegion: value === "none" ? undefined : value,
+            });
+          }}
+        >
+          <SelectTrigger id="emergencyRegion">
+            <SelectValue placeholder="Select region" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Don't show</SelectItem>
+            {Object.entries(EMERGENCY_RESOURCES).map(([value, { label }]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Shows emergency numbers and advice on alcohol poisoning next to
+          serious warnings.
+        </p>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useRef, useState } from "react";
+
+type Domain = [number, number];
+
+const MIN_SPAN = 10 * 60 * 1000;
+const MAX_SPAN = 48 * 60 * 60 * 1000;
+
+/**
+ * Scales the domain around `anchor` (0 is the left edge, 1 the right edge),
+ * keeping the span between 10 minutes and 48 hours.
+ */
+function zoomDomain([start, end]: Domain, factor: number, anchor: number) {
+  const span = end - start;
+  const newSpan = Math.min(MAX_SPAN, Math.max(MIN_SPAN, span * factor));
+  const newStart = start + (span - newSpan) * anchor;
+  return [newStart, newStart + newSpan] satisfies Domain;
+}
+
+/**
+ * Lets the user zoom a time axis with the mouse wheel or a pinch, and pan it
+ * by dragging. Returns the zoomed domain, or `baseDomain` until the user
+ * interacts, plus a ref for the element that receives the gestures.
+ */
+export function useChartZoom(baseDomain: Domain) {
+  const containerReference = useRef<HTMLDivElement>(null);
+  const [zoomedDomain, setZoomedDomain] = useState<Domain | undefined>();
+  const domain = zoomedDomain ?? baseDomain;
+
+  // The listeners are attached once, so they read the domain from a ref
+  const domainReference = useRef(domain);
+  domainReference.current = domain;
+
+  useEffect(() => {
+    const container = containerReference.current;
+    if (!container) {
+      return;
+    }
+
+    const pointers = new Map<number, number>();
+    let lastCenter = 0;
+    let lastDistance = 0;
+
+    const getPosition = (clientX: number) => {
+      const { left, width } = container.getBoundingClientRect();
+      return { fraction: (clientX - left) / width, width };
+    };
+
+    const updateGesture = () => {
+      const positions = [...pointers.values()];
+      if (positions.length === 0) {
+        return;
+      }
+
+      lastCenter =
+        positions.reduce((sum, position) => sum + position, 0) /
+        positions.length;
+      lastDistance =
+        positions.length > 1 ? Math.abs(positions[0]! - positions[1]!) : 0;
+    };
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const { fraction } = getPosition(event.clientX);
+      setZoomedDomain(
+        zoomDomain(
+          domainReference.current,
+          Math.exp(event.deltaY * 0.002),
+          fraction,
+        ),
+      );
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      pointers.set(event.pointerId, event.clientX);
+      updateGesture();
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (!pointers.has(event.pointerId)) {
+        return;
+      }
+
+      pointers.set(event.pointerId, event.clientX);
+      const previousCenter = lastCenter;
+      const previousDistance = lastDistance;
+      updateGesture();
+
+      const [start, end] = domainReference.current;
+      const { fraction, width } = getPosition(lastCenter);
+      const shift = ((lastCenter - previousCenter) / width) * (end - start);
+      let newDomain: Domain = [start - shift, end - shift];
+      if (previousDistance > 0 && lastDistance > 0) {
+        newDomain = zoomDomain(
+          newDomain,
+          previousDistance / lastDistance,
+          fraction,
+        );
+      }
+      if (shift !== 0 || newDomain[1] - newDomain[0] !== end - start) {
+        setZoomedDomain(newDomain);
+      }
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      pointers.delete(event.pointerId);
+      updateGesture();
+    };
+
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    container.addEventListener("pointerdown", handlePointerDown);
+    globalThis.addEventListener("pointermove", handlePointerMove);
+    globalThis.addEventListener("pointerup", handlePointerUp);
+    globalThis.addEventListener("pointercancel", handlePointerUp);
+
+    return () => {
+      container.removeEventListener("wheel", handleWheel);
+      container.removeEventListener("pointerdown", handlePointerDown);
+      globalThis.removeEventListener("pointermove", handlePointerMove);
+      globalThis.removeEventListener("pointerup", handlePointerUp);
+      globalThis.removeEventListener("pointercancel", handlePointerUp);
+    };
+  }, []);
+
+  return {
+    containerReference,
+    domain,
+    isZoomed: zoomedDomain !== undefined,
+    resetZoom: () => {
+      setZoomedDomain(undefined);
+    },
+  };
+}
@@ -0,0 +1,495 @@
+import type { Ingredient } from "~/lib/cocktails";
+
+export const GENDER_CONSTANTS = {
+  male: 0.68,
+  female: 0.55,
+  nonbinary: (0.68 + 0.55) / 2,
+} as const;
+export type Gender = keyof typeof GENDER_CONSTANTS;
+
+/**
+ * How the distribution volume of alcohol is estimated. `widmark` uses the
+ * fixed `GENDER_CONSTANTS`, the others derive the r-factor from age, height
+ * and weight.
+ */
+export type BodyWaterModel = "widmark" | "watson" | "forrest" | "seidl";
+
+// Constants for BAC calculation
+export const METABOLISM_RATE = 0.015; // Average rate of alcohol metabolism per hour
+export const ELIMINATION_RATE_RANGE = [0.01, 0.025] as const; // Normal range of metabolism rates
+export const R_FACTOR_RANGE = [0.4, 0.9] as const; // Plausible range of r-factors
+const ETHANOL_DENSITY = 0.789; // Grams of ethanol per ml
+const BLOOD_WATER_FRACTION = 0.8; // Share of water in whole blood
+const SIMULATION_STEP = 60 * 1000; // Resolution of the BAC simulation (1 minute)
+
+export type Drink = {
+  // When the drink was finished
+  timestamp: number;
+  volume: number;
+  alcoholPercentage: number;
+  // When the drink was started, if it was drunk over a period of time
+  startTimestamp?: number;
+  // Still being drunk; `timestamp` is moved along with the current time
+  isInProgress?: boolean;
+  // The beverage it was, e.g. "Pilsner"
+  name?: string;
+  // What a mixed drink was made of
+  ingredients?: Ingredient[];
+  // A bottle or pitcher split with others; `volume` is the user's share of it
+  share?: { containerVolume: number; fraction: number };
+};
+
+/**
+ * The personal parameters the BAC model depends on.
+ */
+export type BacProfile = {
+  gender: Gender;
+  weight: number;
+  age?: number;
+  height?: number;
+  bodyWaterModel: BodyWaterModel;
+  customRFactor?: number;
+  eliminationRate: number;
+  absorptionHalfTime: number;
+};
+
+export type DataPoint = {
+  timestamp: number;
+  bac: number;
+  isPeak: boolean;
+};
+
+export type BacCrossing = {
+  timestamp: number;
+  direction: "rising" | "falling";
+};
+
+export type BandPoint = DataPoint & {
+  range: [number, number];
+};
+
+/**
+ * The curve for the user's own elimination rate, along with the curves for
+ * the fastest and slowest plausible rates that bound it.
+ */
+export type BacBand = {
+  central: BacCurve;
+  low: BacCurve;
+  high: BacCurve;
+  points: BandPoint[];
+};
+
+export type BacCurve = {
+  points: DataPoint[];
+  current: number;
+  peak: { timestamp: number; bac: number } | undefined;
+  soberAt: number | undefined;
+  zeroCrossings: BacCrossing[];
+  limitCrossings: BacCrossing[];
+};
+
+/**
+ * Returns whether the profile has every input the chosen body-water model
+ * needs. Incomplete profiles fall back to the Widmark constants.
+ */
+export function isBodyWaterModelUsable(profile: BacProfile): boolean {
+  switch (profile.bodyWaterModel) {
+    case "widmark": {
+      return true;
+    }
+    case "watson": {
+      return (
+        profile.height !== undefined &&
+        (profile.gender === "female" || profile.age !== undefined)
+      );
+    }
+    case "forrest":
+    case "seidl": {
+      return profile.height !== undefined;
+    }
+  }
+}
+
+type BinaryGender = Exclude<Gender, "nonbinary">;
+
+function calculateModelRFactor(
+  profile: BacProfile,
+  height: number,
+  gender: BinaryGender,
+): number {
+  const { weight, age } = profile;
+  switch (profile.bodyWaterModel) {
+    case "widmark": {
+      return GENDER_CONSTANTS[gender];
+    }
+    // Watson et al. (1980), total body water in litres
+    case "watson": {
+      const totalBodyWater =
+        gender === "male"
+          ? 2.447 - 0.095_16 * age! + 0.1074 * height + 0.3362 * weight
+          : -2.097 + 0.1069 * height + 0.2466 * weight;
+      return totalBodyWater / (BLOOD_WATER_FRACTION * weight);
+    }
+    // Forrest (1986), based on the body mass index
+    case "forrest": {
+      const bmi = weight / (height / 100) ** 2;
+      return gender === "male"
+        ? 1.0181 - 0.012_13 * bmi
+        : 0.8736 - 0.0124 * bmi;
+    }
+    // Seidl et al. (2000)
+    case "seidl": {
+      return gender === "male"
+        ? 0.316_08 - 0.004_821 * weight + 0.004_632 * height
+        : 0.312_23 - 0.006_446 * weight + 0.004_466 * height;
+    }
+  }
+}
+
+/**
+ * Calculates the Widmark r-factor, the ratio of the alcohol distribution
+ * volume to body weight. Height is in cm, weight in kg and age in years.
+ * A custom r-factor always takes precedence, and the non-binary option
+ * averages the male and female results of the chosen model.
+ */
+export function calculateRFactor(profile: BacProfile): number {
+  const { gender, height, customRFactor } = profile;
+  if (customRFactor !== undefined) {
+    return customRFactor;
+  }
+  if (!isBodyWaterModelUsable(profile) || height === undefined) {
+    return GENDER_CONSTANTS[gender];
+  }
+
+  if (gender === "nonbinary") {
+    return (
+      (calculateModelRFactor(profile, height, "male") +
+        calculateModelRFactor(profile, height, "female")) /
+      2
+    );
+  }
+  return calculateModelRFactor(profile, height, gender);
+}
+
+export function calculateAlcoholGrams(
+  drink: Pick<Drink, "volume" | "alcoholPercentage">,
+): number {
+  return drink.volume * (drink.alcoholPercentage / 100) * ETHANOL_DENSITY;
+}
+
+export function getDrinkStart(drink: Drink): number {
+  return Math.min(drink.startTimestamp ?? drink.timestamp, drink.timestamp);
+}
+
+/**
+ * Treats drinks that are still in progress as finished at `now`, so their
+ * alcohol is spread over the time they have been drunk so far.
+ */
+export function resolveInProgressDrinks(drinks: Drink[], now: number): Drink[] {
+  if (!drinks.some((drink) => drink.isInProgress)) {
+    return drinks;
+  }
+
+  return drinks.map((drink) =>
+    drink.isInProgress
+      ? { ...drink, timestamp: Math.max(now, getDrinkStart(drink)) }
+      : drink,
+  );
+}
+
+function calculateDrinkBac(drink: Drink, profile: BacProfile): number {
+  return (
+    (calculateAlcoholGrams(drink) /
+      (profile.weight * 1000 * calculateRFactor(profile))) *
+    100
+  );
+}
+
+// Alcohol enters the blood with first-order kinetics: after every half-time,
+// half of what is still in the stomach has been absorbed. A drink drunk over
+// a period is swallowed at a steady rate between its start and end.
+function calculateAbsorption(
+  drinks: Drink[],
+  profile: BacProfile,
+  timestamp: number,
+): { absorbed: number; unabsorbed: number } {
+  const decayRate = Math.LN2 / profile.absorptionHalfTime; // Per minute
+  let absorbed = 0;
+  let unabsorbed = 0;
+  for (const drink of drinks) {
+    const start = getDrinkStart(drink);
+    if (start > timestamp) {
+      continue;
+    }
+
+    const drinkBac = calculateDrinkBac(drink, profile);
+    const minutesSinceStart = (timestamp - start) / (60 * 1000);
+    const duration = (drink.timestamp - start) / (60 * 1000);
+    if (duration <= 0) {
+      const remainingFraction = Math.exp(-decayRate * minutesSinceStart);
+      absorbed += drinkBac * (1 - remainingFraction);
+      unabsorbed += drinkBac * remainingFraction;
+      continue;
+    }
+
+    // Integrate the absorption of every sip swallowed so far
+    const minutesSinceEnd = Math.max(0, minutesSinceStart - duration);
+    const swallowedFraction = Math.min(1, minutesSinceStart / duration);
+    const absorbedFraction =
+      swallowedFraction -
+      (Math.exp(-decayRate * minutesSinceEnd) -
+        Math.exp(-decayRate * minutesSinceStart)) /
+        (decayRate * duration);
+    absorbed += drinkBac * absorbedFraction;
+    unabsorbed += drinkBac * (swallowedFraction - absorbedFraction);
+  }
+
+  return { absorbed, unabsorbed };
+}
+
+/**
+ * Finds the moments where the curve passes through `level`, interpolating
+ * linearly between samples.
+ */
+export function findCrossings(
+  points: DataPoint[],
+  level: number,
+): BacCrossing[] {
+  const result: BacCrossing[] = [];
+  for (let index = 1; index < points.length; index++) {
+    const previous = points[index - 1]!;
+    const current = points[index]!;
+    const wasAbove = previous.bac > level;
+    const isAbove = current.bac > level;
+    if (wasAbove === isAbove) {
+      continue;
+    }
+
+    const fraction = (previous.bac - level) / (previous.bac - current.bac);
+    result.push({
+      timestamp:
+        previous.timestamp +
+        (current.timestamp - previous.timestamp) * fraction,
+      direction: isAbove ? "rising" : "falling",
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Simulates the BAC from the first drink until every drink is absorbed and
+ * metabolised. The curve is sampled every minute and also exactly at `now`,
+ * so the current value and the chart always agree.
+ */
+export function calculateBacCurve(
+  drinks: Drink[],
+  profile: BacProfile,
+  now: number,
+  bacLimit: number,
+): BacCurve {
+  const sortedDrinks = [...drinks].sort((a, b) => a.timestamp - b.timestamp);
+  if (sortedDrinks.length === 0) {
+    return {
+      points: [],
+      current: 0,
+      peak: undefined,
+      soberAt: undefined,
+      zeroCrossings: [],
+      limitCrossings: [],
+    };
+  }
+
+  const firstDrink = Math.min(
+    ...sortedDrinks.map((drink) => getDrinkStart(drink)),
+  );
+  const lastDrink = sortedDrinks.at(-1)!.timestamp;
+  const points: DataPoint[] = [
+    { timestamp: firstDrink, bac: 0, isPeak: false },
+  ];
+
+  let timestamp = firstDrink;
+  let bac = 0;
+  let absorbed = 0;
+  let current = 0;
+  let peakIndex = 0;
+
+  for (;;) {
+    const nextTimestamp =
+      timestamp < now
+        ? Math.min(timestamp + SIMULATION_STEP, now)
+        : timestamp + SIMULATION_STEP;
+    const absorption = calculateAbsorption(
+      sortedDrinks,
+      profile,
+      nextTimestamp,
+    );
+    const hoursElapsed = (nextTimestamp - timestamp) / (60 * 60 * 1000);
+
+    bac = Math.max(
+      0,
+      bac +
+        (absorption.absorbed - absorbed) -
+        profile.eliminationRate * hoursElapsed,
+    );
+    timestamp = nextTimestamp;
+    absorbed = absorption.absorbed;
+
+    points.push({ timestamp, bac, isPeak: false });
+    if (timestamp === now) {
+      current = bac;
+    }
+    if (bac > points[peakIndex]!.bac) {
+      peakIndex = points.length - 1;
+    }
+
+    // Absorption slows down exponentially, so once it falls below the rate
+    // of metabolism the BAC cannot go up anymore
+    const absorptionRate =
+      (absorption.unabsorbed * Math.LN2 * 60) / profile.absorptionHalfTime;
+    if (
+      timestamp >= lastDrink &&
+      bac <= 0 &&
+      absorptionRate <= profile.eliminationRate
+    ) {
+      break;
+    }
+  }
+
+  const peakPoint = points[peakIndex]!;
+  if (peakPoint.bac > 0) {
+    peakPoint.isPeak = true;
+  }
+
+  return {
+    points,
+    current,
+    peak:
+      peakPoint.bac > 0
+        ? { timestamp: peakPoint.timestamp, bac: peakPoint.bac }
+        : undefined,
+    soberAt: timestamp,
+    zeroCrossings: findCrossings(points, 0),
+    limitCrossings: findCrossings(points, bacLimit),
+  };
+}
+
+/**
+ * Calculates the curve together with its uncertainty band. Elimination rates
+ * vary widely between people, so the band spans `ELIMINATION_RATE_RANGE`.
+ */
+export function calculateBacBand(
+  drinks: Drink[],
+  profile: BacProfile,
+  now: number,
+  bacLimit: number,
+): BacBand {
+  const central = calculateBacCurve(drinks, profile, now, bacLimit);
+  const low = calculateBacCurve(
+    drinks,
+    {
+      ...profile,
+      eliminationRate: Math.max(
+        profile.eliminationRate,
+        ELIMINATION_RATE_RANGE[1],
+      ),
+    },
+    now,
+    bacLimit,
+  );
+  const high = calculateBacCurve(
+    drinks,
+    {
+      ...profile,
+      eliminationRate: Math.min(
+        profile.eliminationRate,
+        ELIMINATION_RATE_RANGE[0],
+      ),
+    },
+    now,
+    bacLimit,
+  );
+
+  // All three curves are sampled at the same moments, and the slowest
+  // elimination produces the longest one, so the others can be indexed into
+  // and are zero past their end
+  const points = high.points.map(
+    (point, index): BandPoint => ({
+      timestamp: point.timestamp,
+      bac: central.points[index]?.bac ?? 0,
+      isPeak: central.points[index]?.isPeak ?? false,
+      range: [low.points[index]?.bac ?? 0, point.bac],
+    }),
+  );
+
+  return { central, low, high, points };
+}
+
+/**
+ * Reads the BAC at any moment of an already calculated curve, interpolating
+ * linearly between samples.
+ */
+export function interpolateBac(curve: BacCurve, timestamp: number): number {
+  const nextIndex = curve.points.findIndex(
+    (point) => point.timestamp >= timestamp,
+  );
+  if (nextIndex <= 0) {
+    return 0;
+  }
+
+  const previous = curve.points[nextIndex - 1]!;
+  const next = curve.points[nextIndex]!;
+  const fraction =
+    (timestamp - previous.timestamp) / (next.timestamp - previous.timestamp);
+  return previous.bac + (next.bac - previous.bac) * fraction;
+}
+
+/**
+ * Returns how long it takes from `now` until the BAC drops below the level of
+ * the given crossings for good, e.g. a curve's `zeroCrossings`, taking drinks
+ * that are still being absorbed into account. A `margin` in ms is added on
+ * top when the curve is above the level at any point.
+ */
+export function estimateTimeUntilTarget(
+  crossings: BacCrossing[],
+  now: number,
+  margin = 0,
+): number {
+  // The curve always ends at zero, so the last crossing is a falling one
+  const lastCrossing = crossings.at(-1);
+  if (!lastCrossing) {
+    return 0;
+  }
+
+  return Math.max(0, lastCrossing.timestamp + margin - now);
+}
+
+export type LegalEstimateOptions = {
+  bacLimit: number;
+  conservativeMode: boolean;
+  safetyBuffer: number;
+};
+
+/**
+ * Returns how long it takes until the BAC is below the legal limit the band
+ * was calculated for, for good. Conservative mode assumes the slowest
+ * elimination rate and adds the safety buffer (in minutes) on top, so the
+ * estimate errs on the side of caution.
+ */
+export function estimateTimeUntilLegal(
+  band: BacBand,
+  now: number,
+  options: Omit<LegalEstimateOptions, "bacLimit">,
+): number {
+  return options.conservativeMode
+    ? estimateTimeUntilTarget(
+        band.high.limitCrossings,
+        now,
+        options.safetyBuffer * 60 * 1000,
+      )
+    : estimateTimeUntilTarget(band.central.limitCrossings, now);
+}
+
+export function isSober(curve: BacCurve, now: number): boolean {
+  return curve.soberAt === undefined || now >= curve.soberAt;
+}
@@ -0,0 +1,101 @@
+import type { Drink } from "~/lib/bac";
+import { type UnitSystem, formatVolume } from "~/lib/units";
+
+export type Beverage = {
+  name: string;
+  volume: number;
+  alcoholPercentage: number;
+};
+
+/**
+ * Common drinks with a typical serving size in ml and ABV. Real products
+ * vary, so adjust the sliders when needed.
+ */
+export const BEVERAGE_CATALOG: Beverage[] = [
+  { name: "Pilsner", volume: 500, alcoholPercentage: 4.8 },
+  { name: "Lager", volume: 330, alcoholPercentage: 5 },
+  { name: "Light Beer", volume: 330, alcoholPercentage: 3.5 },
+  { name: "Wheat Beer", volume: 500, alcoholPercentage: 5.4 },
+  { name: "IPA", volume: 330, alcoholPercentage: 6.5 },
+  { name: "Stout", volume: 500, alcoholPercentage: 4.2 },
+  { name: "Pint of Bitter", volume: 568, alcoholPercentage: 4 },
+  { name: "Cider", volume: 500, alcoholPercentage: 4.5 },
+  { name: "Hard Seltzer", volume: 355, alcoholPercentage: 5 },
+  { name: "Red Wine", volume: 150, alcoholPercentage: 13.5 },
+  { name: "White Wine", volume: 150, alcoholPercentage: 12 },
+  { name: "Rosé", volume: 150, alcoholPercentage: 12 },
+  { name: "Prosecco", volume: 125, alcoholPercentage: 11 },
+  { name: "Champagne", volume: 125, alcoholPercentage: 12 },
+  { name: "Port", volume: 75, alcoholPercentage: 20 },
+  { name: "Sherry", volume: 75, alcoholPercentage: 17 },
+  { name: "Sake", volume: 180, alcoholPercentage: 15 },
+  { name: "Soju", volume: 50, alcoholPercentage: 17 },
+  { name: "Vodka Shot", volume: 40, alcoholPercentage: 40 },
+  { name: "Gin", volume: 40, alcoholPercentage: 40 },
+  { name: "Whisky", volume: 40, alcoholPercentage: 40 },
+  { name: "Rum", volume: 40, alcoholPercentage: 40 },
+  { name: "Tequila Shot", volume: 40, alcoholPercentage: 38 },
+  { name: "Jägermeister", volume: 20, alcoholPercentage: 35 },
+  { name: "Liqueur", volume: 40, alcoholPercentage: 20 },
+];
+
+function normalizeName(text: string): string {
+  return text
+    .normalize("NFD")
+    .replaceAll(/\p{Diacritic}/gu, "")
+    .toLowerCase();
+}
+
+/**
+ * Finds beverages whose name contains every word of the query, ignoring
+ * case and accents.
+ */
+export function searchBeverages(
+  beverages: Beverage[],
+  query: string,
+): Beverage[] {
+  const words = normalizeName(query).split(/\s+/).filter(Boolean);
+  return beverages.filter((beverage) => {
+    const name = normalizeName(beverage.name);
+    return words.every((word) => name.includes(word));
+  });
+}
+
+// Prefers a simple fraction like `1/4` or `2/3`, else a percentage
+function formatFraction(fraction: number): string {
+  if (fraction >= 1) {
+    return "all";
+  }
+
+  for (let denominator = 2; denominator <= 12; denominator++) {
+    const numerator = Math.round(fraction * denominator);
+    if (numerator > 0 && Math.abs(numerator / denominator - fraction) < 1e-3) {
+      return `${numerator.toString()}/${denominator.toString()}`;
+    }
+  }
+  return `${Math.round(fraction * 100).toString()}%`;
+}
+
+/**
+ * Formats a share of a container as e.g. `1/4 of 750ml`.
+ */
+export function formatShare(
+  share: NonNullable<Drink["share"]>,
+  units: UnitSystem,
+): string {
+  return `${formatFraction(share.fraction)} of ${formatVolume(share.containerVolume, units)}`;
+}
+
+/**
+ * Formats a drink as e.g. `Pilsner 500ml` or `Red Wine 1/4 of 750ml`, or
+ * just the volume without a name.
+ */
+export function formatDrinkLabel(
+  drink: Pick<Drink, "name" | "volume" | "share">,
+  units: UnitSystem,
+): string {
+  const volume = drink.share
+    ? formatShare(drink.share, units)
+    : formatVolume(drink.volume, units);
+  return drink.name ? `${drink.name} ${volume}` : volume;
+}
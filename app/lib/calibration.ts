@@ -0,0 +1,175 @@
+import {
+  type BacProfile,
+  type Drink,
+  ELIMINATION_RATE_RANGE,
+  R_FACTOR_RANGE,
+  calculateBacCurve,
+  getDrinkStart,
+  interpolateBac,
+} from "~/lib/bac";
+/**
+ * Breathalyzers either report BAC directly in percent, or breath alcohol in
+ * mg/L which is converted using the configured blood/breath partition ratio.
+ */
+export type ReadingUnit = "bac" | "brac";
+
+export type Reading = {
+  timestamp: number;
+  value: number;
+  unit: ReadingUnit;
+};
+
+export type CalibrationResult = {
+  rFactor: number;
+  eliminationRate: number;
+  readingCount: number;
+  // Root mean square error of the fitted curve against the readings, in %
+  error: number;
+  // The best fit is at the edge of the plausible range, so the readings
+  // likely call for a value beyond it and the fit is less trustworthy
+  isAtRangeLimit: boolean;
+};
+
+const R_FACTOR_STEP = 0.01;
+const ELIMINATION_RATE_STEP = 0.0005;
+
+// The grid is first searched this many steps apart, then the spacing is
+// halved around the best fit until it is down to a single step
+const COARSE_STEPS = 8;
+
+export function readingToBac(
+  reading: Reading,
+  bloodBreathRatio: number,
+): number {
+  switch (reading.unit) {
+    case "bac": {
+      return reading.value;
+    }
+    // mg/L of breath to g/100mL of blood
+    case "brac": {
+      return (reading.value * bloodBreathRatio) / 10_000;
+    }
+  }
+}
+
+// Grid indices from `from` to `to` that are `step` apart, always including
+// the last one and never leaving `0` to `max`
+function getGridIndices(
+  from: number,
+  to: number,
+  step: number,
+  max: number,
+): number[] {
+  const first = Math.max(from, 0);
+  const last = Math.min(to, max);
+  const indices: number[] = [];
+  for (let index = first; index < last; index += step) {
+    indices.push(index);
+  }
+  indices.push(last);
+  return indices;
+}
+
+/**
+ * Fits the r-factor and elimination rate to the readings taken during the
+ * session by searching the plausible range of both for the smallest error.
+ * A coarse grid finds the area of the best fit, which is then searched more
+ * finely. At least two readings after the first drink are needed, as there
+ * are two unknowns.
+ */
+export function calibrateProfile(
+  drinks: Drink[],
+  readings: Reading[],
+  profile: BacProfile,
+  bloodBreathRatio: number,
+): CalibrationResult | undefined {
+  const firstDrink = Math.min(...drinks.map((drink) => getDrinkStart(drink)));
+  const usableReadings = readings.filter(
+    (reading) => reading.timestamp > firstDrink,
+  );
+  if (usableReadings.length < 2) {
+    return undefined;
+  }
+
+  const rFactorSteps = Math.round(
+    (R_FACTOR_RANGE[1] - R_FACTOR_RANGE[0]) / R_FACTOR_STEP,
+  );
+  const eliminationRateSteps = Math.round(
+    (ELIMINATION_RATE_RANGE[1] - ELIMINATION_RATE_RANGE[0]) /
+      ELIMINATION_RATE_STEP,
+  );
+
+  const calculateError = (rFactor: number, eliminationRate: number) => {
+    const curve = calculateBacCurve(
+      drinks,
+      { ...profile, customRFactor: rFactor, eliminationRate },
+      firstDrink,
+      0,
+    );
+
+    let squaredError = 0;
+    for (const reading of usableReadings) {
+      const difference =
+        interpolateBac(curve, reading.timestamp) -
+        readingToBac(reading, bloodBreathRatio);
+      squaredError += difference ** 2;
+    }
+    return Math.sqrt(squaredError / usableReadings.length);
+  };
+
+  let best = { rIndex: 0, eliminationIndex: 0, error: Infinity };
+  const searchGrid = (rIndices: number[], eliminationIndices: number[]) => {
+    for (const rIndex of rIndices) {
+      for (const eliminationIndex of eliminationIndices) {
+        const error = calculateError(
+          R_FACTOR_RANGE[0] + rIndex * R_FACTOR_STEP,
+          ELIMINATION_RATE_RANGE[0] + eliminationIndex * ELIMINATION_RATE_STEP,
+        );
+        if (error < best.error) {
+          best = { rIndex, eliminationIndex, error };
+        }
+      }
+    }
+  };
+
+  searchGrid(
+    getGridIndices(0, rFactorSteps, COARSE_STEPS, rFactorSteps),
+    getGridIndices(0, eliminationRateSteps, COARSE_STEPS, eliminationRateSteps),
+  );
+  // Two steps either way covers the area up to the coarser neighbours. The
+  // best fit often lies along a narrow valley, as a higher r-factor can make
+  // up for faster elimination, so each spacing is searched until it settles.
+  for (let step = COARSE_STEPS / 2; step >= 1; step /= 2) {
+    let center: typeof best | undefined;
+    while (best !== center) {
+      center = best;
+      searchGrid(
+        getGridIndices(
+          center.rIndex - 2 * step,
+          center.rIndex + 2 * step,
+          step,
+          rFactorSteps,
+        ),
+        getGridIndices(
+          center.eliminationIndex - 2 * step,
+          center.eliminationIndex + 2 * step,
+          step,
+          eliminationRateSteps,
+        ),
+      );
+    }
+  }
+
+  return {
+    rFactor: R_FACTOR_RANGE[0] + best.rIndex * R_FACTOR_STEP,
+    eliminationRate:
+      ELIMINATION_RATE_RANGE[0] + best.eliminationIndex * ELIMINATION_RATE_STEP,
+    readingCount: usableReadings.length,
+    error: best.error,
+    isAtRangeLimit:
+      best.rIndex === 0 ||
+      best.rIndex === rFactorSteps ||
+      best.eliminationIndex === 0 ||
+      best.eliminationIndex === eliminationRateSteps,
+  };
+}
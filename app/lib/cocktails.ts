@@ -0,0 +1,102 @@
+import type { Drink } from "~/lib/bac";
+import { type UnitSystem, formatVolume } from "~/lib/units";
+
+/**
+ * One part of a mixed drink. Volume is in ml, like `Drink`.
+ */
+export type Ingredient = {
+  name: string;
+  volume: number;
+  alcoholPercentage: number;
+};
+
+export type Recipe = {
+  name: string;
+  ingredients: Ingredient[];
+};
+
+export const DEFAULT_RECIPES: Recipe[] = [
+  {
+    name: "Gin & Tonic",
+    ingredients: [
+      { name: "Gin", volume: 50, alcoholPercentage: 40 },
+      { name: "Tonic", volume: 150, alcoholPercentage: 0 },
+    ],
+  },
+  {
+    name: "Aperol Spritz",
+    ingredients: [
+      { name: "Prosecco", volume: 90, alcoholPercentage: 11 },
+      { name: "Aperol", volume: 60, alcoholPercentage: 11 },
+      { name: "Soda", volume: 30, alcoholPercentage: 0 },
+    ],
+  },
+  {
+    name: "Long Island Iced Tea",
+    ingredients: [
+      { name: "Vodka", volume: 15, alcoholPercentage: 40 },
+      { name: "Gin", volume: 15, alcoholPercentage: 40 },
+      { name: "Rum", volume: 15, alcoholPercentage: 40 },
+      { name: "Tequila", volume: 15, alcoholPercentage: 38 },
+      { name: "Triple Sec", volume: 15, alcoholPercentage: 30 },
+      { name: "Lemon Juice", volume: 25, alcoholPercentage: 0 },
+      { name: "Cola", volume: 60, alcoholPercentage: 0 },
+    ],
+  },
+  {
+    name: "Mojito",
+    ingredients: [
+      { name: "White Rum", volume: 50, alcoholPercentage: 40 },
+      { name: "Lime Juice", volume: 25, alcoholPercentage: 0 },
+      { name: "Sugar Syrup", volume: 15, alcoholPercentage: 0 },
+      { name: "Soda", volume: 100, alcoholPercentage: 0 },
+    ],
+  },
+  {
+    name: "Margarita",
+    ingredients: [
+      { name: "Tequila", volume: 50, alcoholPercentage: 38 },
+      { name: "Triple Sec", volume: 20, alcoholPercentage: 30 },
+      { name: "Lime Juice", volume: 25, alcoholPercentage: 0 },
+    ],
+  },
+];
+
+/**
+ * Combines the ingredients into a single drink with their total volume and
+ * the ABV that gives the same amount of alcohol.
+ */
+export function mixIngredients(
+  ingredients: Ingredient[],
+): Pick<Drink, "volume" | "alcoholPercentage"> {
+  let volume = 0;
+  let alcoholVolume = 0;
+  for (const ingredient of ingredients) {
+    volume += ingredient.volume;
+    alcoholVolume += ingredient.volume * (ingredient.alcoholPercentage / 100);
+  }
+
+  return {
+    volume,
+    alcoholPercentage: volume > 0 ? (alcoholVolume / volume) * 100 : 0,
+  };
+}
+
+/**
+ * Formats ingredients as e.g. `50ml Gin 40% + 150ml Tonic`.
+ */
+export function formatIngredients(
+  ingredients: Ingredient[],
+  units: UnitSystem,
+): string {
+  return ingredients
+    .map(
+      (ingredient) =>
+        `${formatVolume(ingredient.volume, units)} ${ingredient.name}${
+          ingredient.alcoholPercentage > 0
+            ? ` ${ingredient.alcoholPercentage.toString()}%`
+            : ""
+        }`,
+    )
+    .join(" + ");
+}
@@ -0,0 +1,180 @@
+export type DriverCategory =
+  | "general"
+  | "novice"
+  | "professional"
+  | "commercial";
+
+export const DRIVER_CATEGORIES: Record<DriverCategory, string> = {
+  general: "General",
+  novice: "Novice / young",
+  professional: "Professional (taxi, bus)",
+  commercial: "Commercial (truck)",
+};
+
+/**
+ * Legal BAC limits in percent by jurisdiction and driver category. Bundled so
+ * it works offline; laws change, so always double-check the local rules.
+ */
+export const JURISDICTIONS = {
+  us: {
+    label: "United States (most states)",
+    limits: {
+      general: 0.08,
+      novice: 0.02,
+      professional: 0.04,
+      commercial: 0.04,
+    },
+  },
+  "us-ut": {
+    label: "United States (Utah)",
+    limits: { general: 0.05, novice: 0, professional: 0.04, commercial: 0.04 },
+  },
+  ca: {
+    label: "Canada (criminal limit)",
+    limits: { general: 0.08, novice: 0, professional: 0.08, commercial: 0.08 },
+  },
+  ky: {
+    label: "Cayman Islands",
+    limits: { general: 0.1, novice: 0.1, professional: 0.1, commercial: 0.1 },
+  },
+  uk: {
+    label: "United Kingdom (England, Wales, NI)",
+    limits: {
+      general: 0.08,
+      novice: 0.08,
+      professional: 0.08,
+      commercial: 0.08,
+    },
+  },
+  "uk-sct": {
+    label: "United Kingdom (Scotland)",
+    limits: {
+      general: 0.05,
+      novice: 0.05,
+      professional: 0.05,
+      commercial: 0.05,
+    },
+  },
+  ie: {
+    label: "Ireland",
+    limits: {
+      general: 0.05,
+      novice: 0.02,
+      professional: 0.02,
+      commercial: 0.02,
+    },
+  },
+  de: {
+    label: "Germany",
+    limits: { general: 0.05, novice: 0, professional: 0, commercial: 0.05 },
+  },
+  at: {
+    label: "Austria",
+    limits: {
+      general: 0.05,
+      novice: 0.01,
+      professional: 0.01,
+      commercial: 0.01,
+    },
+  },
+  ch: {
+    label: "Switzerland",
+    limits: {
+      general: 0.05,
+      novice: 0.01,
+      professional: 0.01,
+      commercial: 0.01,
+    },
+  },
+  fr: {
+    label: "France",
+    limits: {
+      general: 0.05,
+      novice: 0.02,
+      professional: 0.02,
+      commercial: 0.05,
+    },
+  },
+  nl: {
+    label: "Netherlands",
+    limits: {
+      general: 0.05,
+      novice: 0.02,
+      professional: 0.05,
+      commercial: 0.05,
+    },
+  },
+  es: {
+    label: "Spain",
+    limits: {
+      general: 0.05,
+      novice: 0.03,
+      professional: 0.03,
+      commercial: 0.03,
+    },
+  },
+  it: {
+    label: "Italy",
+    limits: { general: 0.05, novice: 0, professional: 0, commercial: 0 },
+  },
+  se: {
+    label: "Sweden",
+    limits: {
+      general: 0.02,
+      novice: 0.02,
+      professional: 0.02,
+      commercial: 0.02,
+    },
+  },
+  no: {
+    label: "Norway",
+    limits: {
+      general: 0.02,
+      novice: 0.02,
+      professional: 0.02,
+      commercial: 0.02,
+    },
+  },
+  pl: {
+    label: "Poland",
+    limits: {
+      general: 0.02,
+      novice: 0.02,
+      professional: 0.02,
+      commercial: 0.02,
+    },
+  },
+  cz: {
+    label: "Czech Republic",
+    limits: { general: 0, novice: 0, professional: 0, commercial: 0 },
+  },
+  hu: {
+    label: "Hungary",
+    limits: { general: 0, novice: 0, professional: 0, commercial: 0 },
+  },
+  au: {
+    label: "Australia",
+    limits: { general: 0.05, novice: 0, professional: 0.02, commercial: 0.02 },
+  },
+  nz: {
+    label: "New Zealand",
+    limits: { general: 0.05, novice: 0, professional: 0.05, commercial: 0.05 },
+  },
+  jp: {
+    label: "Japan",
+    limits: {
+      general: 0.03,
+      novice: 0.03,
+      professional: 0.03,
+      commercial: 0.03,
+    },
+  },
+} as const;
+export type Jurisdiction = keyof typeof JURISDICTIONS;
+
+export function getLegalLimit(
+  jurisdiction: Jurisdiction,
+  driverCategory: DriverCategory,
+): number {
+  return JURISDICTIONS[jurisdiction].limits[driverCategory];
+}
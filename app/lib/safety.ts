@@ -0,0 +1,120 @@
+import type { Drink } from "~/lib/bac";
+import {
+  type StandardDrink,
+  calculateStandardDrinks,
+} from "~/lib/standard-drinks";
+
+export type WarningSeverity = "caution" | "danger" | "emergency";
+
+/**
+ * BAC in percent from which each warning tier applies.
+ */
+export type WarningLevels = Record<WarningSeverity, number>;
+
+export const DEFAULT_WARNING_LEVELS: WarningLevels = {
+  caution: 0.1,
+  danger: 0.2,
+  emergency: 0.3,
+};
+
+export const WARNING_MESSAGES: Record<
+  WarningSeverity,
+  { title: string; description: string }
+> = {
+  caution: {
+    title: "Heavy Drinking",
+    description:
+      "Your BAC is heading for a level where coordination, balance and judgement are clearly impaired. Consider switching to water.",
+  },
+  danger: {
+    title: "Dangerous BAC",
+    description:
+      "Your BAC is heading for a level that can cause confusion, vomiting and blackouts. Stop drinking and make sure you are not alone.",
+  },
+  emergency: {
+    title: "Risk of Alcohol Poisoning",
+    description:
+      "Your BAC is heading for a level that can be life-threatening. Stop drinking now and get help if you feel unwell, are confused or have trouble staying awake.",
+  },
+};
+
+/**
+ * Returns the most severe warning tier the peak BAC reaches, if any.
+ */
+export function getPeakWarning(
+  peakBac: number,
+  levels: WarningLevels,
+): WarningSeverity | undefined {
+  const severities: WarningSeverity[] = ["emergency", "danger", "caution"];
+  return severities.find((severity) => peakBac >= levels[severity]);
+}
+
+/**
+ * Counts the standard drinks logged in the hour leading up to `now`.
+ */
+export function countStandardDrinksLastHour(
+  drinks: Drink[],
+  now: number,
+  standardDrink: StandardDrink,
+): number {
+  return calculateStandardDrinks(
+    drinks.filter(
+      (drink) =>
+        drink.timestamp > now - 60 * 60 * 1000 && drink.timestamp <= now,
+    ),
+    standardDrink,
+  );
+}
+
+/**
+ * Emergency numbers and guidance on alcohol poisoning.
+ */
+export const EMERGENCY_RESOURCES = {
+  us: {
+    label: "United States",
+    phone: "911",
+    links: [
+      { label: "Poison Control", url: "https://www.poison.org/" },
+      {
+        label: "SAMHSA National Helpline",
+        url: "https://www.samhsa.gov/find-help/national-helpline",
+      },
+    ],
+  },
+  ca: {
+    label: "Canada",
+    phone: "911",
+    links: [],
+  },
+  uk: {
+    label: "United Kingdom",
+    phone: "999",
+    links: [
+      {
+        label: "NHS: Alcohol poisoning",
+        url: "https://www.nhs.uk/conditions/alcohol-poisoning/",
+      },
+    ],
+  },
+  eu: {
+    label: "European Union",
+    phone: "112",
+    links: [],
+  },
+  au: {
+    label: "Australia",
+    phone: "000",
+    links: [
+      {
+        label: "healthdirect: Alcohol poisoning",
+        url: "https://www.healthdirect.gov.au/alcohol-poisoning",
+      },
+    ],
+  },
+  nz: {
+    label: "New Zealand",
+    phone: "111",
+    links: [],
+  },
+} as const;
+export type EmergencyRegion = keyof typeof EMERGENCY_RESOURCES;
@@ -0,0 +1,137 @@
+import {
+  type BacProfile,
+  type Drink,
+  type LegalEstimateOptions,
+  calculateBacBand,
+  calculateBacCurve,
+  estimateTimeUntilLegal,
+  estimateTimeUntilTarget,
+} from "~/lib/bac";
+
+// Upper bound of the search, nobody should be told they can have more
+const MAX_DRINKS = 20;
+
+export type RemainingDrinksResult = {
+  count: number;
+  // False when the user will not be legal by the target time even without
+  // having anything else to drink
+  isReachable: boolean;
+};
+
+/**
+ * Inverts the BAC model: finds how many more drinks of the given size and
+ * strength can be had, starting at `now` and one every `paceMinutes` (or all
+ * at once when it is 0), while still being legal by `targetTime`.
+ */
+export function calculateRemainingDrinks(
+  drinks: Drink[],
+  drink: Pick<Drink, "volume" | "alcoholPercentage">,
+  profile: BacProfile,
+  options: LegalEstimateOptions & {
+    now: number;
+    targetTime: number;
+    paceMinutes: number;
+  },
+): RemainingDrinksResult {
+  const { now, targetTime, paceMinutes } = options;
+  const isLegalBy = (count: number) => {
+    const extraDrinks = Array.from({ length: count }, (_, index) => ({
+      ...drink,
+      timestamp: now + index * paceMinutes * 60 * 1000,
+    }));
+    const band = calculateBacBand(
+      [...drinks, ...extraDrinks],
+      profile,
+      now,
+      options.bacLimit,
+    );
+    return now + estimateTimeUntilLegal(band, now, options) <= targetTime;
+  };
+
+  if (!isLegalBy(0)) {
+    return { count: 0, isReachable: false };
+  }
+
+  // Every extra drink only raises the curve, so the first count that is too
+  // much ends the search
+  let count = 0;
+  while (
+    count < MAX_DRINKS &&
+    now + count * paceMinutes * 60 * 1000 <= targetTime &&
+    isLegalBy(count + 1)
+  ) {
+    count++;
+  }
+
+  return { count, isReachable: true };
+}
+
+const PACING_SEARCH_STEP = 5 * 60 * 1000;
+
+export type NextDrinkResult = {
+  // Undefined when the drink alone would already exceed the target
+  time: number | undefined;
+  // True when the BAC is or will be above the target even without the drink
+  isAboveTarget: boolean;
+};
+
+/**
+ * Finds the earliest moment from `now` on when the given drink can be had
+ * without the BAC going above `targetPeak` afterwards.
+ */
+export function calculateNextDrinkTime(
+  drinks: Drink[],
+  drink: Pick<Drink, "volume" | "alcoholPercentage">,
+  profile: BacProfile,
+  options: { now: number; targetPeak: number },
+): NextDrinkResult {
+  const { now, targetPeak } = options;
+  // Only the BAC from the drink on matters, an earlier excess is in the past
+  const staysBelowTarget = (timestamp: number) => {
+    const curve = calculateBacCurve(
+      [...drinks, { ...drink, timestamp }],
+      profile,
+      now,
+      targetPeak,
+    );
+    return curve.points.every(
+      (point) => point.timestamp < timestamp || point.bac <= targetPeak,
+    );
+  };
+
+  const currentCurve = calculateBacCurve(drinks, profile, now, targetPeak);
+  const isAboveTarget = currentCurve.points.some(
+    (point) => point.timestamp >= now && point.bac > targetPeak,
+  );
+
+  // Once sober the drink is on its own, so waiting any longer cannot help
+  const soberAt = Math.max(
+    now,
+    now + estimateTimeUntilTarget(currentCurve.zeroCrossings, now),
+  );
+  if (!staysBelowTarget(soberAt)) {
+    return { time: undefined, isAboveTarget };
+  }
+  if (staysBelowTarget(now)) {
+    return { time: now, isAboveTarget };
+  }
+
+  // Scan coarsely for the first safe moment, then narrow it down to a minute
+  let safe = now + PACING_SEARCH_STEP;
+  while (safe < soberAt && !staysBelowTarget(safe)) {
+    safe += PACING_SEARCH_STEP;
+  }
+  safe = Math.min(safe, soberAt);
+
+  let unsafe = safe - PACING_SEARCH_STEP;
+  while (safe - unsafe > 60 * 1000) {
+    const middle = (safe + unsafe) / 2;
+    if (staysBelowTarget(middle)) {
+      safe = middle;
+    } else {
+      unsafe = middle;
+    }
+  }
+
+  return { time: Math.ceil(safe / 60_000) * 60_000, isAboveTarget };
+}
@@ -0,0 +1,55 @@
+import { type Drink, calculateAlcoholGrams } from "~/lib/bac";
+
+/**
+ * National definitions of a standard drink, in grams of pure ethanol.
+ */
+export const STANDARD_DRINKS = {
+  us: { label: "United States (14 g)", grams: 14, unit: "std drink" },
+  uk: { label: "United Kingdom (8 g unit)", grams: 8, unit: "unit" },
+  au: { label: "Australia (10 g)", grams: 10, unit: "std drink" },
+  eu: { label: "Europe (10 g)", grams: 10, unit: "std drink" },
+  ca: { label: "Canada (13.45 g)", grams: 13.45, unit: "std drink" },
+  nz: { label: "New Zealand (10 g)", grams: 10, unit: "std drink" },
+  ie: { label: "Ireland (10 g)", grams: 10, unit: "std drink" },
+  de: { label: "Germany (12 g)", grams: 12, unit: "std drink" },
+  jp: { label: "Japan (20 g)", grams: 20, unit: "std drink" },
+} as const;
+export type StandardDrink = keyof typeof STANDARD_DRINKS;
+
+function sumAlcoholGrams(
+  drinks: Pick<Drink, "volume" | "alcoholPercentage">[],
+): number {
+  let result = 0;
+  for (const drink of drinks) {
+    result += calculateAlcoholGrams(drink);
+  }
+  return result;
+}
+
+export function calculateStandardDrinks(
+  drinks: Pick<Drink, "volume" | "alcoholPercentage">[],
+  standardDrink: StandardDrink,
+): number {
+  return sumAlcoholGrams(drinks) / STANDARD_DRINKS[standardDrink].grams;
+}
+
+/**
+ * Formats the alcohol in the given drinks as e.g. `19.7 g · 1.4 std drinks`.
+ */
+export function formatAlcohol(
+  drinks: Pick<Drink, "volume" | "alcoholPercentage">[],
+  standardDrink: StandardDrink,
+): string {
+  const grams = sumAlcoholGrams(drinks).toFixed(1);
+  const count = calculateStandardDrinks(drinks, standardDrink).toFixed(1);
+  const unit = STANDARD_DRINKS[standardDrink].unit;
+  return `${grams} g · ${count} ${count === "1.0" ? unit : `${unit}s`}`;
+}
+
+/**
+ * Formats an alcohol percentage the way a label shows it, e.g. `9.2%` for a
+ * mixed drink at 9.1666…%.
+ */
+export function formatAlcoholPercentage(percentage: number): string {
+  return `${Number(percentage.toFixed(1)).toString()}%`;
+}
@@ -0,0 +1,16 @@
+/**
+ * Reads a JSON value saved with `localStorage.setItem`, falling back when it
+ * is missing or cannot be parsed.
+ */
+export function loadFromStorage<T>(key: string, fallback: T): T {
+  const stored = localStorage.getItem(key);
+  if (!stored) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(stored) as T;
+  } catch {
+    return fallback;
+  }
+}
@@ -0,0 +1,125 @@
+import { type Drink, getDrinkStart } from "~/lib/bac";
+
+export function formatDuration(ms: number): string {
+  if (ms <= 0) {
+    return "00:00";
+  }
+  const hours = Math.floor(ms / 3_600_000); // 1 hour = 3600000 ms
+  const minutes = Math.floor((ms % 3_600_000) / 60_000); // 1 minute = 60000 ms
+
+  const hoursPadded = hours.toString(10).padStart(2, "0");
+  const minutesPadded = minutes.toString(10).padStart(2, "0");
+
+  return `${hoursPadded}:${minutesPadded}`;
+}
+
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const seconds = (totalSeconds % 60).toString(10).padStart(2, "0");
+  return `${formatDuration(totalSeconds * 1000)}:${seconds}`;
+}
+
+/**
+ * Formats a timestamp as the `HH:MM` value of an `<input type="time">`.
+ */
+export function toTimeInputValue(timestamp: number): string {
+  const date = new Date(timestamp);
+  const hours = date.getHours().toString(10).padStart(2, "0");
+  const minutes = date.getMinutes().toString(10).padStart(2, "0");
+  return `${hours}:${minutes}`;
+}
+
+// A time this far ahead is taken as now, e.g. from a watch that runs fast
+const FUTURE_TIME_TOLERANCE = 5 * 60_000;
+
+/**
+ * Resolves the `HH:MM` value of an `<input type="time">` to a moment that has
+ * already happened, using whichever of today and yesterday is nearer to `now`.
+ * A time a few minutes ahead counts as `now`, while one further ahead gives
+ * `undefined` rather than being moved back a day.
+ */
+export function fromTimeInputValue(
+  value: string,
+  now: number,
+): number | undefined {
+  const [hours = 0, minutes = 0] = value.split(":").map(Number);
+  const date = new Date(now);
+  date.setHours(hours, minutes, 0, 0);
+  const today = date.getTime();
+  date.setDate(date.getDate() - 1);
+  const yesterday = date.getTime();
+
+  // e.g. 23:45 typed at 00:30 is yesterday, but 22:30 typed at 22:00 is not
+  const timestamp = today - now < now - yesterday ? today : yesterday;
+  if (timestamp <= now) {
+    return timestamp;
+  }
+  return timestamp - now <= FUTURE_TIME_TOLERANCE ? now : undefined;
+}
+
+/**
+ * Resolves the `HH:MM` value of an `<input type="time">` to the next moment
+ * with that time of day, so a time before `now` means tomorrow.
+ */
+export function fromFutureTimeInputValue(value: string, now: number): number {
+  const [hours = 0, minutes = 0] = value.split(":").map(Number);
+  const date = new Date(now);
+  date.setHours(hours, minutes, 0, 0);
+  if (date.getTime() < now) {
+    date.setDate(date.getDate() + 1);
+  }
+  return date.getTime();
+}
+
+// Tick intervals in minutes, each dividing an hour or a day evenly
+const TICK_INTERVALS = [5, 10, 15, 30, 60, 120, 180, 360, 720];
+
+/**
+ * Returns chart ticks between `start` and `end` that fall on round clock
+ * times such as :00, :15 and :30, using the smallest interval that needs no
+ * more than `maxTicks` ticks.
+ */
+export function calculateTimeTicks(
+  start: number,
+  end: number,
+  maxTicks = 7,
+): number[] {
+  const intervalMinutes =
+    TICK_INTERVALS.find(
+      (minutes) => (end - start) / (minutes * 60_000) < maxTicks,
+    ) ?? TICK_INTERVALS.at(-1)!;
+  const interval = intervalMinutes * 60_000;
+
+  // Align to local midnight so the ticks land on the local clock
+  const midnight = new Date(start);
+  midnight.setHours(0, 0, 0, 0);
+  const offset = midnight.getTime();
+
+  const result: number[] = [];
+  for (
+    let tick = offset + Math.ceil((start - offset) / interval) * interval;
+    tick <= end;
+    tick += interval
+  ) {
+    result.push(tick);
+  }
+  return result;
+}
+
+/**
+ * Formats when a drink was had as e.g. `20:15`, or `19:30–20:15` for one
+ * drunk over a period of time.
+ */
+export function formatDrinkTime(
+  drink: Drink,
+  formatter: Intl.DateTimeFormat,
+): string {
+  if (drink.isInProgress) {
+    return `${formatter.format(getDrinkStart(drink))}–now`;
+  }
+
+  const start = getDrinkStart(drink);
+  return start === drink.timestamp
+    ? formatter.format(drink.timestamp)
+    : `${formatter.format(start)}–${formatter.format(drink.timestamp)}`;
+}
@@ -0,0 +1,123 @@
+/**
+ * The unit system used for input and display. Everything is stored and
+ * calculated in metric units, and only converted at the edges.
+ */
+export type UnitSystem = "metric" | "us" | "uk";
+
+const POUND = 0.453_592_37; // kg
+const INCH = 2.54; // cm
+const FLUID_OUNCE = {
+  us: 29.573_53, // ml
+  uk: 28.413_06, // ml
+} as const;
+
+export function toDisplayVolume(ml: number, units: UnitSystem): number {
+  return units === "metric" ? ml : ml / FLUID_OUNCE[units];
+}
+
+export function fromDisplayVolume(value: number, units: UnitSystem): number {
+  return units === "metric" ? value : value * FLUID_OUNCE[units];
+}
+
+export function getVolumeUnit(units: UnitSystem): string {
+  return units === "metric" ? "ml" : "fl oz";
+}
+
+/**
+ * Formats a volume in ml as e.g. `500ml` or `16.9 fl oz`.
+ */
+export function formatVolume(ml: number, units: UnitSystem): string {
+  return units === "metric"
+    ? `${Math.round(ml).toString(10)}ml`
+    : `${toDisplayVolume(ml, units).toFixed(1)} fl oz`;
+}
+
+export function toDisplayWeight(kg: number, units: UnitSystem): number {
+  return units === "metric" ? kg : kg / POUND;
+}
+
+export function fromDisplayWeight(value: number, units: UnitSystem): number {
+  return units === "metric" ? value : value * POUND;
+}
+
+export function getWeightUnit(units: UnitSystem): string {
+  return units === "metric" ? "kg" : "lb";
+}
+
+export function toDisplayHeight(cm: number, units: UnitSystem): number {
+  return units === "metric" ? cm : cm / INCH;
+}
+
+export function fromDisplayHeight(value: number, units: UnitSystem): number {
+  return units === "metric" ? value : value * INCH;
+}
+
+export function getHeightUnit(units: UnitSystem): string {
+  return units === "metric" ? "cm" : "in";
+}
+
+/**
+ * The unit BAC is displayed in. Calculations always use percent (g/100mL),
+ * breath alcohol is derived with the blood/breath partition ratio.
+ */
+export type BacUnit = "percent" | "permille" | "gPerL" | "mgPer100ml" | "brac";
+
+export const BLOOD_BREATH_RATIO = 2100;
+
+export const BAC_UNITS: Record<
+  BacUnit,
+  { label: string; suffix: string; digits: number }
+> = {
+  percent: { label: "Percent (%)", suffix: "%", digits: 3 },
+  permille: { label: "Permille (‰)", suffix: "‰", digits: 2 },
+  gPerL: { label: "Grams per litre (g/L)", suffix: " g/L", digits: 2 },
+  mgPer100ml: {
+    label: "Milligrams per 100 mL (mg/100mL)",
+    suffix: " mg/100mL",
+    digits: 0,
+  },
+  brac: { label: "Breath alcohol (mg/L)", suffix: " mg/L", digits: 3 },
+};
+
+export function toDisplayBac(
+  bac: number,
+  unit: BacUnit,
+  bloodBreathRatio = BLOOD_BREATH_RATIO,
+): number {
+  switch (unit) {
+    case "percent": {
+      return bac;
+    }
+    case "permille":
+    case "gPerL": {
+      return bac * 10;
+    }
+    case "mgPer100ml": {
+      return bac * 1000;
+    }
+    // g/100mL of blood to mg/L of breath
+    case "brac": {
+      return (bac * 10_000) / bloodBreathRatio;
+    }
+  }
+}
+
+export function fromDisplayBac(
+  value: number,
+  unit: BacUnit,
+  bloodBreathRatio = BLOOD_BREATH_RATIO,
+): number {
+  return value / toDisplayBac(1, unit, bloodBreathRatio);
+}
+
+/**
+ * Formats a BAC in percent as e.g. `0.050%`, `0.50‰` or `0.238 mg/L`.
+ */
+export function formatBac(
+  bac: number,
+  unit: BacUnit,
+  bloodBreathRatio = BLOOD_BREATH_RATIO,
+): string {
+  const { suffix, digits } = BAC_UNITS[unit];
+  return `${toDisplayBac(bac, unit, bloodBreathRatio).toFixed(digits)}${suffix}`;
+}
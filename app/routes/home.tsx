@@ -1,6 +1,26 @@
 import type { Route } from "./+types/home";
-import { type ChartConfig, ChartContainer } from "~/components/ui/chart";
-import { BeerIcon, Plus, Clock, Timer, Settings, Trash2 } from "lucide-react";
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "~/components/ui/chart";
+import {
+  BeerIcon,
+  Plus,
+  Clock,
+  Timer,
+  Settings,
+  Trash2,
+  Pencil,
+  Check,
+  ChevronDown,
+  Gauge,
+  ShieldCheck,
+  CalendarClock,
+} from "lucide-react";
 import {
   Area,
   AreaChart,
@@ -8,17 +28,21 @@ import {
   XAxis,
   YAxis,
   ReferenceLine,
+  ReferenceDot,
+  ReferenceArea,
 } from "recharts";
 import {
   Table,
   TableBody,
   TableCell,
+  TableFooter,
   TableHead,
   TableHeader,
   TableRow,
 } from "~/components/ui/table";
 import { Button } from "~/components/ui/button";
 import { Label } from "~/components/ui/label";
+import { Input } from "~/components/ui/input";
 import { useState, useEffect, useMemo, useCallback } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
 import {
@@ -38,9 +62,80 @@ import {
   SelectValue,
 } from "~/components/ui/select";
 import { toast } from "~/hooks/use-toast";
+import { useChartZoom } from "~/hooks/use-chart-zoom";
 import { Slider } from "~/components/ui/slider";
 import { cn } from "~/lib/utils";
 import { ThemeToggle } from "~/components/theme-toggle";
+import { BeveragePicker } from "~/components/beverage-picker";
+import { BreathalyzerDialog } from "~/components/breathalyzer-dialog";
+import { CocktailBuilderDialog } from "~/components/cocktail-builder-dialog";
+import { DrinkDetailsDialog } from "~/components/drink-details-dialog";
+import { DrinkFields } from "~/components/drink-fields";
+import { JurisdictionSettings } from "~/components/jurisdiction-settings";
+import { PacingCard } from "~/components/pacing-card";
+import { PlannerDialog } from "~/components/planner-dialog";
+import { RemainingDrinksCard } from "~/components/remaining-drinks-card";
+import { SafetyBanner } from "~/components/safety-banner";
+import {
+  type BacThreshold,
+  ThresholdSettings,
+} from "~/components/threshold-settings";
+import { WarningSettings } from "~/components/warning-settings";
+import {
+  type BandPoint,
+  type Drink,
+  type Gender,
+  type BodyWaterModel,
+  ELIMINATION_RATE_RANGE,
+  METABOLISM_RATE,
+  R_FACTOR_RANGE,
+  calculateBacBand,
+  calculateBacCurve,
+  calculateRFactor,
+  estimateTimeUntilLegal,
+  estimateTimeUntilTarget,
+  isBodyWaterModelUsable,
+  isSober,
+  resolveInProgressDrinks,
+} from "~/lib/bac";
+import { formatDrinkLabel } from "~/lib/beverages";
+import { loadFromStorage } from "~/lib/storage";
+import { type Reading, readingToBac } from "~/lib/calibration";
+import {
+  type StandardDrink,
+  STANDARD_DRINKS,
+  formatAlcohol,
+  formatAlcoholPercentage,
+} from "~/lib/standard-drinks";
+import type { DriverCategory, Jurisdiction } from "~/lib/jurisdictions";
+import {
+  type EmergencyRegion,
+  type WarningLevels,
+  DEFAULT_WARNING_LEVELS,
+  countStandardDrinksLastHour,
+  getPeakWarning,
+} from "~/lib/safety";
+import {
+  calculateTimeTicks,
+  formatDuration,
+  formatDrinkTime,
+  fromTimeInputValue,
+  toTimeInputValue,
+} from "~/lib/time";
+import {
+  type BacUnit,
+  type UnitSystem,
+  BAC_UNITS,
+  BLOOD_BREATH_RATIO,
+  formatBac,
+  fromDisplayHeight,
+  fromDisplayWeight,
+  getHeightUnit,
+  getWeightUnit,
+  toDisplayBac,
+  toDisplayHeight,
+  toDisplayWeight,
+} from "~/lib/units";
 
 export function meta({}: Route.MetaArgs) {
   return [
@@ -49,185 +144,113 @@ export function meta({}: Route.MetaArgs) {
   ];
 }
 
-const GENDER_CONSTANTS = {
-  male: 0.68,
-  female: 0.55,
-} as const;
-type Gender = keyof typeof GENDER_CONSTANTS;
-
-// Constants for BAC calculation
-const METABOLISM_RATE = 0.015; // Average rate of alcohol metabolism per hour
-
-type Drink = {
-  timestamp: number;
-  volume: number;
-  alcoholPercentage: number;
-};
-
-function calculateBac(
-  drinks: Drink[],
-  gender: Gender,
-  timestamp: number,
-  weight: number,
-): number {
-  let result = 0;
-  const genderConstant = GENDER_CONSTANTS[gender];
-  for (const drink of drinks) {
-    if (drink.timestamp > timestamp) {
-      continue;
-    }
-
-    const hoursSinceDrink = (timestamp - drink.timestamp) / (60 * 60 * 1000);
-    const alcoholGrams = drink.volume * (drink.alcoholPercentage / 100) * 0.789;
-    const initialBAC = (alcoholGrams / (weight * 1000 * genderConstant)) * 100;
-
-    result += Math.max(0, initialBAC - METABOLISM_RATE * hoursSinceDrink);
-  }
-
-  return result;
-}
-
-type DataPoint = {
-  timestamp: number;
-  bac: number;
-  isPeak: boolean;
-};
-
-function calculateChartData(
-  drinks: Drink[],
-  gender: Gender,
-  now: number,
-  weight: number,
-): DataPoint[] {
-  const result: DataPoint[] = [];
-  const sortedDrinks = [...drinks].sort((a, b) => a.timestamp - b.timestamp);
-
-  if (sortedDrinks.length === 0) {
-    return result;
-  }
-
-  // Start with 0 BAC at the first drink's time
-  /*result.push({
-    timestamp: sortedDrinks[0]!.timestamp - 1000, // 1 second before first drink
-    bac: 0,
-  });*/
-
-  let currentBac = 0;
-
-  for (const drink of sortedDrinks) {
-    // Add point just before the drink at current BAC level
-    result.push({
-      timestamp: drink.timestamp,
-      bac: currentBac,
-      isPeak: false,
-    });
-
-    // Calculate BAC increase from this drink
-    const genderConstant = GENDER_CONSTANTS[gender];
-    const alcoholGrams = drink.volume * (drink.alcoholPercentage / 100) * 0.789;
-    const bacIncrease = (alcoholGrams / (weight * 1000 * genderConstant)) * 100;
-
-    // Add point immediately after adding the drink
-    currentBac += bacIncrease;
-    result.push({
-      timestamp: drink.timestamp,
-      bac: currentBac,
-      isPeak: false,
-    });
-
-    // Calculate when this drink's BAC would reach 0 if no other drinks
-    const hoursUntilZero = currentBac / METABOLISM_RATE;
-    const timeUntilZero = hoursUntilZero * 60 * 60 * 1000;
-    const zeroTime = drink.timestamp + timeUntilZero;
-
-    // If there's another drink, add point at that time with calculated BAC
-    const nextDrink = sortedDrinks.find((d) => d.timestamp > drink.timestamp);
-    if (nextDrink) {
-      const hoursTillNextDrink =
-        (nextDrink.timestamp - drink.timestamp) / (60 * 60 * 1000);
-      currentBac = Math.max(
-        0,
-        currentBac - METABOLISM_RATE * hoursTillNextDrink,
-      );
-    }
-    // If no next drink, add point at current time if not in future
-    else if (now > drink.timestamp) {
-      const hoursSinceDrink = (now - drink.timestamp) / (60 * 60 * 1000);
-      currentBac = Math.max(0, currentBac - METABOLISM_RATE * hoursSinceDrink);
-      result.push({
-        timestamp: now,
-        bac: currentBac,
-        isPeak: false,
-      });
-
-      // If still above 0, add final point where it reaches 0
-      if (currentBac > 0) {
-        result.push({
-          timestamp: zeroTime,
-          bac: 0,
-          isPeak: false,
-        });
-      }
-    }
-    // If drink is in the future, just add point where it reaches 0
-    else {
-      result.push({
-        timestamp: zeroTime,
-        bac: 0,
-        isPeak: false,
-      });
-    }
-  }
-
-  return result;
-}
-
-function estimateTimeUntilTarget(
-  currentBac: number,
-  targetBac: number,
-): number {
-  if (currentBac <= targetBac) {
-    return 0;
-  }
-  return ((currentBac - targetBac) / METABOLISM_RATE) * 60 * 60 * 1000;
-}
-
-function formatDuration(ms: number): string {
-  if (ms <= 0) {
-    return "00:00";
-  }
-  const hours = Math.floor(ms / 3_600_000); // 1 hour = 3600000 ms
-  const minutes = Math.floor((ms % 3_600_000) / 60_000); // 1 minute = 60000 ms
-
-  const hoursPadded = hours.toString(10).padStart(2, "0");
-  const minutesPadded = minutes.toString(10).padStart(2, "0");
-
-  return `${hoursPadded}:${minutesPadded}`;
-}
-
 export type UserSettings = {
   gender: Gender;
   weight: number;
+  age?: number;
+  height?: number;
+  bodyWaterModel: BodyWaterModel;
+  customRFactor?: number;
+  eliminationRate: number;
   bacLimit: number;
+  // The preset the limit was taken from, unset once adjusted by hand
+  jurisdiction?: Jurisdiction;
+  driverCategory: DriverCategory;
+  thresholds: BacThreshold[];
+  warningLevels: WarningLevels;
+  // Standard drinks per hour above which the user is told to slow down
+  rapidDrinkingLimit: number;
+  emergencyRegion?: EmergencyRegion;
+  conservativeMode: boolean;
+  safetyBuffer: number;
+  absorptionHalfTime: number;
+  standardDrink: StandardDrink;
   timeFormat: "12h" | "24h";
+  units: UnitSystem;
+  bacUnit: BacUnit;
+  bloodBreathRatio: number;
 };
 
 // This would typically come from your backend/storage
 const DEFAULT_SETTINGS: UserSettings = {
   gender: "male",
   weight: 75,
+  bodyWaterModel: "widmark",
+  eliminationRate: METABOLISM_RATE,
   bacLimit: 0.05,
+  driverCategory: "general",
+  thresholds: [],
+  warningLevels: DEFAULT_WARNING_LEVELS,
+  rapidDrinkingLimit: 3,
+  conservativeMode: true,
+  safetyBuffer: 30,
+  absorptionHalfTime: 15,
+  standardDrink: "us",
   timeFormat: "24h",
+  units: "metric",
+  bacUnit: "percent",
+  bloodBreathRatio: BLOOD_BREATH_RATIO,
 };
 
+// Weight slider bounds in the unit the weight is entered in
+const WEIGHT_RANGES = {
+  metric: { min: 30, max: 200 },
+  us: { min: 66, max: 440 },
+  uk: { min: 66, max: 440 },
+} as const;
+
+// Medically significant BAC ranges shaded on the chart, in percent
+const DANGER_ZONES = {
+  severe: { from: 0.15, to: 0.3, opacity: 0.08 },
+  critical: { from: 0.3, to: undefined, opacity: 0.16 },
+} as const;
+
+const CHART_RANGES = {
+  "1h": "Last hour",
+  "3h": "Last 3 hours",
+  "6h": "Last 6 hours",
+  session: "Whole session",
+  sober: "Until sober",
+} as const;
+type ChartRange = keyof typeof CHART_RANGES;
+
+// Whether a new drink is finished, was drunk over a period, or is still open
+type DrinkTiming = "finished" | "period" | "inProgress";
+
+// Whether a new drink was the user's alone, or a container split with others
+type DrinkShare = "single" | "people" | "fraction";
+
+// A chart point with the BAC split into what happened and what is projected
+type ChartPoint = BandPoint & {
+  pastBac?: number;
+  futureBac?: number;
+};
+
+function toDisplayBandPoint(
+  point: BandPoint,
+  unit: BacUnit,
+  bloodBreathRatio: number,
+): BandPoint {
+  return {
+    ...point,
+    bac: toDisplayBac(point.bac, unit, bloodBreathRatio),
+    range: [
+      toDisplayBac(point.range[0], unit, bloodBreathRatio),
+      toDisplayBac(point.range[1], unit, bloodBreathRatio),
+    ],
+  };
+}
+
 type DeleteDialogProps = {
   drink?: Drink;
+  units: UnitSystem;
   onCancel: () => void;
   onConfirm: () => void;
 };
 
 const DeleteDialog: React.FC<DeleteDialogProps> = ({
   drink,
+  units,
   onCancel,
   onConfirm,
 }) => {
@@ -248,8 +271,10 @@ const DeleteDialog: React.FC<DeleteDialogProps> = ({
         <DialogHeader>
           <DialogTitle>Delete Drink</DialogTitle>
           <DialogDescription>
-            Are you sure you want to delete this drink ({drink.volume}ml,{" "}
-            {drink.alcoholPercentage}%)? This action cannot be undone.
+            Are you sure you want to delete this drink (
+            {formatDrinkLabel(drink, units)},{" "}
+            {formatAlcoholPercentage(drink.alcoholPercentage)})? This action
+            cannot be undone.
           </DialogDescription>
         </DialogHeader>
         <DialogFooter>
@@ -285,6 +310,50 @@ export default function Home({}: Route.ComponentProps) {
     };
   }, []);
 
+  const [settings, setSettings] = useState<UserSettings>(() => {
+    const stored = localStorage.getItem("userSettings");
+    if (!stored) {
+      return DEFAULT_SETTINGS;
+    }
+
+    try {
+      const parsed = JSON.parse(stored) as Partial<UserSettings>;
+      return {
+        gender: parsed.gender ?? DEFAULT_SETTINGS.gender,
+        weight: parsed.weight ?? DEFAULT_SETTINGS.weight,
+        age: parsed.age,
+        height: parsed.height,
+        bodyWaterModel:
+          parsed.bodyWaterModel ?? DEFAULT_SETTINGS.bodyWaterModel,
+        customRFactor: parsed.customRFactor,
+        eliminationRate:
+          parsed.eliminationRate ?? DEFAULT_SETTINGS.eliminationRate,
+        bacLimit: parsed.bacLimit ?? DEFAULT_SETTINGS.bacLimit,
+        jurisdiction: parsed.jurisdiction,
+        driverCategory:
+          parsed.driverCategory ?? DEFAULT_SETTINGS.driverCategory,
+        thresholds: parsed.thresholds ?? DEFAULT_SETTINGS.thresholds,
+        warningLevels: parsed.warningLevels ?? DEFAULT_SETTINGS.warningLevels,
+        rapidDrinkingLimit:
+          parsed.rapidDrinkingLimit ?? DEFAULT_SETTINGS.rapidDrinkingLimit,
+        emergencyRegion: parsed.emergencyRegion,
+        conservativeMode:
+          parsed.conservativeMode ?? DEFAULT_SETTINGS.conservativeMode,
+        safetyBuffer: parsed.safetyBuffer ?? DEFAULT_SETTINGS.safetyBuffer,
+        absorptionHalfTime:
+          parsed.absorptionHalfTime ?? DEFAULT_SETTINGS.absorptionHalfTime,
+        standardDrink: parsed.standardDrink ?? DEFAULT_SETTINGS.standardDrink,
+        timeFormat: parsed.timeFormat ?? DEFAULT_SETTINGS.timeFormat,
+        units: parsed.units ?? DEFAULT_SETTINGS.units,
+        bacUnit: parsed.bacUnit ?? DEFAULT_SETTINGS.bacUnit,
+        bloodBreathRatio:
+          parsed.bloodBreathRatio ?? DEFAULT_SETTINGS.bloodBreathRatio,
+      };
+    } catch {
+      return DEFAULT_SETTINGS;
+    }
+  });
+
   const [drinks, setDrinks] = useState<Drink[]>(() => {
     const stored = localStorage.getItem("drinks");
     if (!stored) {
@@ -293,16 +362,22 @@ export default function Home({}: Route.ComponentProps) {
 
     try {
       const storedDrinks = JSON.parse(stored) as Drink[];
-      // Clear drinks if user is already sober
+      // Clear drinks if user is already sober, going by their own profile
+      const now = Date.now();
       if (
-        calculateBac(
-          storedDrinks,
-          DEFAULT_SETTINGS.gender,
-          Date.now(),
-          DEFAULT_SETTINGS.weight,
-        ) <= 0
+        isSober(
+          calculateBacCurve(
+            resolveInProgressDrinks(storedDrinks, now),
+            settings,
+            now,
+            settings.bacLimit,
+          ),
+          now,
+        )
       ) {
         localStorage.removeItem("drinks");
+        localStorage.removeItem("readings");
+        localStorage.removeItem("plannedDrinks");
         return [];
       }
       return storedDrinks;
@@ -316,33 +391,48 @@ export default function Home({}: Route.ComponentProps) {
     localStorage.setItem("drinks", JSON.stringify(drinks));
   }, [drinks]);
 
+  // Breathalyzer readings belong to the current session
+  const [readings, setReadings] = useState<Reading[]>(() =>
+    loadFromStorage<Reading[]>("readings", []),
+  );
+
+  useEffect(() => {
+    localStorage.setItem("readings", JSON.stringify(readings));
+  }, [readings]);
+
+  // Drinks the user might have later, kept out of the real log
+  const [plannedDrinks, setPlannedDrinks] = useState<Drink[]>(() =>
+    loadFromStorage<Drink[]>("plannedDrinks", []),
+  );
+
+  useEffect(() => {
+    localStorage.setItem("plannedDrinks", JSON.stringify(plannedDrinks));
+  }, [plannedDrinks]);
+
   const [open, setOpen] = useState(false);
+  const [newDrinkTiming, setNewDrinkTiming] = useState<DrinkTiming>("finished");
+  const [newDrinkShare, setNewDrinkShare] = useState<DrinkShare>("single");
+  const [newDrinkPeople, setNewDrinkPeople] = useState("2");
+  const [newDrinkSharePercentage, setNewDrinkSharePercentage] = useState("25");
+  const [newDrinkStartTime, setNewDrinkStartTime] = useState(() =>
+    toTimeInputValue(Date.now() - 30 * 60 * 1000),
+  );
+  const [newDrinkTime, setNewDrinkTime] = useState(() =>
+    toTimeInputValue(Date.now()),
+  );
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [showAdvancedSettings, setShowAdvancedSettings] = useState(false);
   const [drinkToDelete, setDrinkToDelete] = useState<
     { drink: Drink; index: number } | undefined
   >();
+  const [selectedDrinkIndex, setSelectedDrinkIndex] = useState<
+    number | undefined
+  >();
+  const [chartRange, setChartRange] = useState<ChartRange>("session");
   const [newDrink, setNewDrink] = useState<Partial<Drink>>({
     alcoholPercentage: 5,
     volume: 500,
   });
-  const [settings, setSettings] = useState<UserSettings>(() => {
-    const stored = localStorage.getItem("userSettings");
-    if (!stored) {
-      return DEFAULT_SETTINGS;
-    }
-
-    try {
-      const parsed = JSON.parse(stored) as Partial<UserSettings>;
-      return {
-        gender: parsed.gender ?? DEFAULT_SETTINGS.gender,
-        weight: parsed.weight ?? DEFAULT_SETTINGS.weight,
-        bacLimit: parsed.bacLimit ?? DEFAULT_SETTINGS.bacLimit,
-        timeFormat: parsed.timeFormat ?? DEFAULT_SETTINGS.timeFormat,
-      };
-    } catch {
-      return DEFAULT_SETTINGS;
-    }
-  });
 
   const handleSettingsChange = (newSettings: Partial<UserSettings>) => {
     const updatedSettings = { ...settings, ...newSettings };
@@ -350,26 +440,142 @@ export default function Home({}: Route.ComponentProps) {
     localStorage.setItem("userSettings", JSON.stringify(updatedSettings));
   };
 
+  const toastDrinkAdded = (drink: Drink, updatedDrinks: Drink[]) => {
+    const description = `Added ${formatDrinkLabel(drink, settings.units)} with ${formatAlcoholPercentage(drink.alcoholPercentage)} alcohol (${formatAlcohol([drink], settings.standardDrink)}).`;
+    const recentCount = countStandardDrinksLastHour(
+      updatedDrinks,
+      drink.timestamp,
+      settings.standardDrink,
+    );
+    if (recentCount > settings.rapidDrinkingLimit) {
+      toast({
+        variant: "destructive",
+        title: "Slow Down",
+        description: `${description} That is ${recentCount.toFixed(1)} ${STANDARD_DRINKS[settings.standardDrink].unit}s in the last hour.`,
+      });
+      return;
+    }
+
+    toast({ title: "Drink Added", description });
+  };
+
   const handleAddDrink = (event: React.FormEvent) => {
     event.preventDefault();
-    if (newDrink.alcoholPercentage && newDrink.volume) {
-      const drink = {
-        timestamp: currentTime,
+    const fraction =
+      newDrinkShare === "people"
+        ? 1 / Number.parseInt(newDrinkPeople, 10)
+        : newDrinkShare === "fraction"
+          ? Number.parseFloat(newDrinkSharePercentage) / 100
+          : 1;
+    if (
+      newDrink.alcoholPercentage &&
+      newDrink.volume &&
+      fraction > 0 &&
+      fraction <= 1
+    ) {
+      // Keep the exact time unless the drink was backdated
+      const timestamp =
+        newDrinkTiming === "inProgress" ||
+        newDrinkTime === toTimeInputValue(currentTime)
+          ? currentTime
+          : fromTimeInputValue(newDrinkTime, currentTime);
+      const startTimestamp =
+        newDrinkTiming === "finished"
+          ? undefined
+          : fromTimeInputValue(newDrinkStartTime, currentTime);
+      if (
+        timestamp === undefined ||
+        (newDrinkTiming !== "finished" && startTimestamp === undefined)
+      ) {
+        toast({
+          title: "Future Time",
+          description:
+            "That time has not happened yet. Enter when you started or finished the drink.",
+        });
+        return;
+      }
+
+      const drink: Drink = {
+        timestamp,
         alcoholPercentage: newDrink.alcoholPercentage,
-        volume: newDrink.volume,
+        volume: newDrink.volume * fraction,
+        ...(newDrink.name?.trim() && { name: newDrink.name.trim() }),
+        ...(newDrinkShare !== "single" && {
+          share: { containerVolume: newDrink.volume, fraction },
+        }),
+        ...(startTimestamp !== undefined && {
+          startTimestamp: Math.min(startTimestamp, timestamp),
+        }),
+        ...(newDrinkTiming === "inProgress" && { isInProgress: true }),
       };
-      setDrinks([...drinks, drink]);
-      toast({
-        title: "Drink Added",
-        description: `Added ${drink.volume.toString()}ml drink with ${drink.alcoholPercentage.toString()}% alcohol.`,
-      });
+      const updatedDrinks = [...drinks, drink].sort(
+        (a, b) => a.timestamp - b.timestamp,
+      );
+      setDrinks(updatedDrinks);
+      toastDrinkAdded(drink, updatedDrinks);
       setOpen(false);
     }
   };
 
-  const bac = useMemo(
-    () => calculateBac(drinks, settings.gender, currentTime, settings.weight),
-    [drinks, settings.gender, currentTime, settings.weight],
+  const handleFinishDrink = (index: number) => {
+    setDrinks(
+      drinks
+        .map((drink, drinkIndex) =>
+          drinkIndex === index
+            ? { ...drink, timestamp: currentTime, isInProgress: undefined }
+            : drink,
+        )
+        .sort((a, b) => a.timestamp - b.timestamp),
+    );
+  };
+
+  // Drinks still in progress count as finished right now
+  const sessionDrinks = useMemo(
+    () => resolveInProgressDrinks(drinks, currentTime),
+    [drinks, currentTime],
+  );
+
+  // Every BAC figure on the page is read from this single band of curves
+  const bacBand = useMemo(
+    () =>
+      calculateBacBand(sessionDrinks, settings, currentTime, settings.bacLimit),
+    [sessionDrinks, settings, currentTime],
+  );
+  const bacCurve = bacBand.central;
+  const bac = bacCurve.current;
+
+  // The warnings say where BAC is heading, so a peak already passed is left out
+  const upcomingPeakBac = Math.max(
+    bac,
+    ...bacCurve.points
+      .filter((point) => point.timestamp >= currentTime)
+      .map((point) => point.bac),
+  );
+  const peakWarning = getPeakWarning(upcomingPeakBac, settings.warningLevels);
+  const standardDrinksLastHour = countStandardDrinksLastHour(
+    sessionDrinks,
+    currentTime,
+    settings.standardDrink,
+  );
+
+  // Planned drinks whose time has passed were either logged or skipped
+  const upcomingPlannedDrinks = useMemo(
+    () => plannedDrinks.filter((drink) => drink.timestamp > currentTime),
+    [plannedDrinks, currentTime],
+  );
+
+  // The same curves as if the planned drinks were had as well
+  const projectedBand = useMemo(
+    () =>
+      upcomingPlannedDrinks.length === 0
+        ? undefined
+        : calculateBacBand(
+            [...sessionDrinks, ...upcomingPlannedDrinks],
+            settings,
+            currentTime,
+            settings.bacLimit,
+          ),
+    [sessionDrinks, upcomingPlannedDrinks, settings, currentTime],
   );
 
   // Create formatters based on settings
@@ -409,53 +615,130 @@ export default function Home({}: Route.ComponentProps) {
   );
 
   // Memoize derived values
-  const { isOverLimit, timeUntilSober, timeUntilLegal, soberTime, legalTime } =
-    useMemo(() => {
-      const isOverLimit = bac > settings.bacLimit;
-      const timeUntilSoberUnformatted = estimateTimeUntilTarget(bac, 0);
-      const timeUntilLegalUnformatted = estimateTimeUntilTarget(
-        bac,
-        settings.bacLimit,
-      );
+  const {
+    isOverLimit,
+    timeUntilSober,
+    timeUntilLegal,
+    soberTimeRange,
+    legalTimeRange,
+    plannedSoberTime,
+    plannedLegalTime,
+    legalAt,
+  } = useMemo(() => {
+    const isOverLimit = bac > settings.bacLimit;
+    const timeUntilSoberUnformatted = estimateTimeUntilTarget(
+      bacCurve.zeroCrossings,
+      currentTime,
+    );
+    const timeUntilLegalUnformatted = estimateTimeUntilLegal(
+      bacBand,
+      currentTime,
+      settings,
+    );
 
-      const formatSoberTime = (ms: number) =>
-        ms <= 0
-          ? soberTimeFormatter.format(new Date())
-          : soberTimeFormatter.format(new Date(currentTime + ms));
+    const formatSoberTime = (ms: number) =>
+      ms <= 0
+        ? soberTimeFormatter.format(new Date())
+        : soberTimeFormatter.format(new Date(currentTime + ms));
 
-      return {
-        isOverLimit,
-        timeUntilSober: formatDuration(timeUntilSoberUnformatted),
-        timeUntilLegal: formatDuration(timeUntilLegalUnformatted),
-        soberTime: formatSoberTime(timeUntilSoberUnformatted),
-        legalTime: formatSoberTime(timeUntilLegalUnformatted),
-      };
-    }, [
-      bac,
-      settings.bacLimit,
-      currentTime,
-      soberTimeFormatter,
-      formatDuration,
-    ]);
+    // Fast elimination gives the earliest time, slow elimination the latest
+    const formatTimeRange = (
+      prefix: string,
+      crossings: "zeroCrossings" | "limitCrossings",
+    ) => {
+      const earliest = formatSoberTime(
+        estimateTimeUntilTarget(bacBand.low[crossings], currentTime),
+      );
+      const latest = formatSoberTime(
+        estimateTimeUntilTarget(bacBand.high[crossings], currentTime),
+      );
+      return earliest === latest
+        ? `${prefix} at ${earliest}`
+        : `${prefix} between ${earliest} and ${latest}`;
+    };
+
+    return {
+      isOverLimit,
+      timeUntilSober: formatDuration(timeUntilSoberUnformatted),
+      timeUntilLegal: formatDuration(timeUntilLegalUnformatted),
+      soberTimeRange: formatTimeRange("Sober", "zeroCrossings"),
+      // Conservative mode adds a time to rely on next to the likely range
+      legalTimeRange: settings.conservativeMode
+        ? `Legal at ${formatSoberTime(timeUntilLegalUnformatted)} to be safe, ${formatTimeRange("likely", "limitCrossings")}`
+        : formatTimeRange("Legal", "limitCrossings"),
+      plannedSoberTime:
+        projectedBand &&
+        formatSoberTime(
+          estimateTimeUntilTarget(
+            projectedBand.central.zeroCrossings,
+            currentTime,
+          ),
+        ),
+      plannedLegalTime:
+        projectedBand &&
+        formatSoberTime(
+          estimateTimeUntilLegal(projectedBand, currentTime, settings),
+        ),
+      legalAt: currentTime + timeUntilLegalUnformatted,
+    };
+  }, [
+    bac,
+    bacBand,
+    bacCurve,
+    projectedBand,
+    settings,
+    currentTime,
+    soberTimeFormatter,
+    formatDuration,
+  ]);
 
-  // Memoize chart data
+  // The chart is drawn in the display unit, so the axis ticks come out round.
+  // Both halves include the sample at now, so the curve stays connected.
   const chartData = useMemo(
     () =>
-      calculateChartData(drinks, settings.gender, currentTime, settings.weight),
-    [drinks, settings.gender, currentTime, settings.weight],
+      bacBand.points.map((point): ChartPoint => {
+        const displayPoint = toDisplayBandPoint(
+          point,
+          settings.bacUnit,
+          settings.bloodBreathRatio,
+        );
+        return {
+          ...displayPoint,
+          pastBac:
+            point.timestamp <= currentTime ? displayPoint.bac : undefined,
+          futureBac:
+            point.timestamp >= currentTime ? displayPoint.bac : undefined,
+        };
+      }),
+    [bacBand, currentTime, settings.bacUnit, settings.bloodBreathRatio],
+  );
+  const projectedChartData = useMemo(
+    () =>
+      projectedBand?.points
+        .filter((point) => point.timestamp >= currentTime)
+        .map((point) =>
+          toDisplayBandPoint(
+            point,
+            settings.bacUnit,
+            settings.bloodBreathRatio,
+          ),
+        ),
+    [projectedBand, currentTime, settings.bacUnit, settings.bloodBreathRatio],
   );
 
   // Check if user is sober and clear drinks if needed
   useEffect(() => {
-    if (bac <= 0 && drinks.length > 0) {
+    if (drinks.length > 0 && isSober(bacCurve, currentTime)) {
       setDrinks([]);
+      setReadings([]);
+      setPlannedDrinks([]);
       toast({
         title: "Session Cleared",
         description:
           "Your drinking session has been cleared as you are now sober.",
       });
     }
-  }, [bac, drinks.length]);
+  }, [bacCurve, currentTime, drinks.length]);
 
   const chartConfig = {
     bac: {
@@ -463,22 +746,136 @@ export default function Home({}: Route.ComponentProps) {
       icon: BeerIcon,
       color: "hsl(var(--chart-1))",
     },
+    range: {
+      label: "Likely range",
+      color: "hsl(var(--chart-1))",
+    },
+    projected: {
+      label: "With plan",
+      icon: CalendarClock,
+      color: "hsl(var(--chart-4))",
+    },
+    reading: {
+      label: "Breathalyzer",
+      icon: Gauge,
+      color: "hsl(var(--chart-2))",
+    },
+    drink: {
+      label: "Drink",
+      color: "hsl(var(--chart-3))",
+    },
+    limit: {
+      label: "Legal limit",
+      color: "hsl(var(--destructive))",
+    },
+    threshold: {
+      label: "Thresholds",
+      color: "hsl(var(--chart-3))",
+    },
+    severe: {
+      label: `Severe impairment (>${formatBac(DANGER_ZONES.severe.from, settings.bacUnit, settings.bloodBreathRatio)})`,
+      color: "hsl(var(--chart-5))",
+    },
+    critical: {
+      label: `Life-threatening (>${formatBac(DANGER_ZONES.critical.from, settings.bacUnit, settings.bloodBreathRatio)})`,
+      color: "hsl(var(--destructive))",
+    },
   } satisfies ChartConfig;
 
+  const legendPayload = (
+    [
+      "bac",
+      ...(drinks.length > 0 ? (["drink"] as const) : []),
+      "limit",
+      ...(settings.thresholds.length > 0 ? (["threshold"] as const) : []),
+      "severe",
+      "critical",
+    ] as const
+  ).map((key) => ({
+    value: key,
+    dataKey: key,
+    color: chartConfig[key].color,
+  }));
+
   // Calculate chart domain based on data availability
-  const chartDomain: [number, number] = useMemo(
+  const sessionDomain: [number, number] = useMemo(
     () =>
-      drinks.length === 0
+      drinks.length === 0 && upcomingPlannedDrinks.length === 0
         ? [currentTime - 30 * 60 * 1000, currentTime + 30 * 60 * 1000] // 30 minutes before and after current time if no drinks
         : [
-            Math.min(chartData[0]?.timestamp ?? currentTime, currentTime) -
+            Math.min(
+              chartData[0]?.timestamp ?? currentTime,
+              projectedChartData?.[0]?.timestamp ?? currentTime,
+              currentTime,
+            ) -
               5 * 60 * 1000,
-            Math.max(chartData.at(-1)?.timestamp ?? currentTime, currentTime) +
+            Math.max(
+              chartData.at(-1)?.timestamp ?? currentTime,
+              projectedChartData?.at(-1)?.timestamp ?? currentTime,
+              currentTime,
+            ) +
               5 * 60 * 1000,
           ],
-    [drinks.length, currentTime, chartData],
+    [
+      drinks.length,
+      upcomingPlannedDrinks.length,
+      currentTime,
+      chartData,
+      projectedChartData,
+    ],
+  );
+
+  const rangeDomain: [number, number] = useMemo(() => {
+    switch (chartRange) {
+      case "1h":
+      case "3h":
+      case "6h": {
+        const hours = Number.parseInt(chartRange, 10);
+        return [
+          currentTime - hours * 60 * 60 * 1000,
+          currentTime + 5 * 60 * 1000,
+        ];
+      }
+      case "session": {
+        return sessionDomain;
+      }
+      case "sober": {
+        const soberAt = Math.max(
+          bacCurve.soberAt ?? currentTime,
+          projectedBand?.central.soberAt ?? currentTime,
+        );
+        return soberAt > currentTime
+          ? [currentTime - 5 * 60 * 1000, soberAt + 5 * 60 * 1000]
+          : sessionDomain;
+      }
+    }
+  }, [chartRange, currentTime, sessionDomain, bacCurve, projectedBand]);
+
+  const {
+    containerReference: chartContainerReference,
+    domain: chartDomain,
+    isZoomed,
+    resetZoom,
+  } = useChartZoom(rangeDomain);
+  const chartTicks = useMemo(
+    () => calculateTimeTicks(chartDomain[0], chartDomain[1]),
+    [chartDomain],
   );
 
+  const handleUpdateDrink = (index: number, drink: Drink) => {
+    setDrinks(
+      drinks
+        .map((otherDrink, drinkIndex) =>
+          drinkIndex === index ? drink : otherDrink,
+        )
+        .sort((a, b) => a.timestamp - b.timestamp),
+    );
+    toast({
+      title: "Drink Updated",
+      description: "Your changes to the drink have been saved.",
+    });
+  };
+
   const handleDeleteDrink = (index: number) => {
     const updatedDrinks = drinks.filter(
       (_, drinkIndex) => drinkIndex !== index,
@@ -502,7 +899,7 @@ export default function Home({}: Route.ComponentProps) {
                 <Settings className="h-6 w-6" />
               </button>
             </DialogTrigger>
-            <DialogContent>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Settings</DialogTitle>
                 <DialogDescription>
@@ -515,7 +912,7 @@ export default function Home({}: Route.ComponentProps) {
                   <Label htmlFor="gender">Gender</Label>
                   <Select
                     value={settings.gender}
-                    onValueChange={(value: "male" | "female") => {
+                    onValueChange={(value: Gender) => {
                       handleSettingsChange({ gender: value });
                     }}
                   >
@@ -525,48 +922,292 @@ export default function Home({}: Route.ComponentProps) {
                     <SelectContent>
                       <SelectItem value="male">Male</SelectItem>
                       <SelectItem value="female">Female</SelectItem>
+                      <SelectItem value="nonbinary">
+                        Non-binary (average)
+                      </SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="weight">Weight (kg)</Label>
+                  <Label htmlFor="weight">
+                    Weight ({getWeightUnit(settings.units)})
+                  </Label>
                   <div className="flex items-center gap-4">
                     <Slider
                       id="weight"
-                      min={30}
-                      max={200}
+                      min={WEIGHT_RANGES[settings.units].min}
+                      max={WEIGHT_RANGES[settings.units].max}
                       step={1}
-                      value={[settings.weight]}
+                      value={[
+                        Math.round(
+                          toDisplayWeight(settings.weight, settings.units),
+                        ),
+                      ]}
                       onValueChange={(value) => {
-                        handleSettingsChange({ weight: value[0]! });
+                        handleSettingsChange({
+                          weight: fromDisplayWeight(value[0]!, settings.units),
+                        });
                       }}
                       className="flex-1"
                     />
-                    <span className="w-12 text-right text-sm text-muted-foreground">
-                      {settings.weight}kg
+                    <span className="w-14 text-right text-sm text-muted-foreground">
+                      {Math.round(
+                        toDisplayWeight(settings.weight, settings.units),
+                      )}
+                      {getWeightUnit(settings.units)}
                     </span>
                   </div>
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="bacLimit">Legal BAC Limit (%)</Label>
-                  <div className="flex items-center gap-4">
-                    <Slider
-                      id="bacLimit"
-                      min={0}
-                      max={0.08}
-                      step={0.01}
-                      value={[settings.bacLimit]}
-                      onValueChange={(value) => {
-                        handleSettingsChange({ bacLimit: value[0]! });
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="age">Age (optional)</Label>
+                    <Input
+                      id="age"
+                      type="number"
+                      min={18}
+                      max={120}
+                      placeholder="Years"
+                      value={settings.age ?? ""}
+                      onChange={(event) => {
+                        handleSettingsChange({
+                          age:
+                            event.target.value === ""
+                              ? undefined
+                              : event.target.valueAsNumber,
+                        });
                       }}
-                      className="flex-1"
                     />
-                    <span className="w-16 text-right text-sm text-muted-foreground">
-                      {settings.bacLimit.toFixed(2)}%
-                    </span>
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="height">Height (optional)</Label>
+                    <Input
+                      id="height"
+                      type="number"
+                      min={Math.round(toDisplayHeight(100, settings.units))}
+                      max={Math.round(toDisplayHeight(250, settings.units))}
+                      placeholder={getHeightUnit(settings.units)}
+                      value={
+                        settings.height === undefined
+                          ? ""
+                          : Number(
+                              toDisplayHeight(
+                                settings.height,
+                                settings.units,
+                              ).toFixed(1),
+                            )
+                      }
+                      onChange={(event) => {
+                        handleSettingsChange({
+                          height:
+                            event.target.value === ""
+                              ? undefined
+                              : fromDisplayHeight(
+                                  event.target.valueAsNumber,
+                                  settings.units,
+                                ),
+                        });
+                      }}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="bodyWaterModel">Body Water Model</Label>
+                  <Select
+                    value={settings.bodyWaterModel}
+                    onValueChange={(value: BodyWaterModel) => {
+                      handleSettingsChange({ bodyWaterModel: value });
+                    }}
+                  >
+                    <SelectTrigger id="bodyWaterModel">
+                      <SelectValue placeholder="Select body water model" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="widmark">Widmark (default)</SelectItem>
+                      <SelectItem value="watson">Watson</SelectItem>
+                      <SelectItem value="forrest">Forrest</SelectItem>
+                      <SelectItem value="seidl">Seidl</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {settings.customRFactor === undefined &&
+                    !isBodyWaterModelUsable(settings) && (
+                      <p className="text-xs text-muted-foreground">
+                        This model needs your height
+                        {settings.bodyWaterModel === "watson" &&
+                          settings.gender !== "female" &&
+                          " and age"}
+                        . Until then the Widmark default is used.
+                      </p>
+                    )}
+                </div>
+
+                <JurisdictionSettings
+                  jurisdiction={settings.jurisdiction}
+                  driverCategory={settings.driverCategory}
+                  bacLimit={settings.bacLimit}
+                  bacUnit={settings.bacUnit}
+                  bloodBreathRatio={settings.bloodBreathRatio}
+                  onChange={handleSettingsChange}
+                />
+
+                <WarningSettings
+                  warningLevels={settings.warningLevels}
+                  rapidDrinkingLimit={settings.rapidDrinkingLimit}
+                  emergencyRegion={settings.emergencyRegion}
+                  bacUnit={settings.bacUnit}
+                  bloodBreathRatio={settings.bloodBreathRatio}
+                  onChange={handleSettingsChange}
+                />
+
+                <ThresholdSettings
+                  thresholds={settings.thresholds}
+                  bacUnit={settings.bacUnit}
+                  bloodBreathRatio={settings.bloodBreathRatio}
+                  onChange={(thresholds) => {
+                    handleSettingsChange({ thresholds });
+                  }}
+                />
+
+                <div className="space-y-2">
+                  <Label htmlFor="conservativeMode">Legal Time Estimate</Label>
+                  <Select
+                    value={
+                      settings.conservativeMode ? "conservative" : "average"
+                    }
+                    onValueChange={(value: "conservative" | "average") => {
+                      handleSettingsChange({
+                        conservativeMode: value === "conservative",
+                      });
+                    }}
+                  >
+                    <SelectTrigger id="conservativeMode">
+                      <SelectValue placeholder="Select estimate" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="conservative">
+                        Conservative (recommended)
+                      </SelectItem>
+                      <SelectItem value="average">Average</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {settings.conservativeMode && (
+                    <div className="flex items-center gap-4">
+                      <Slider
+                        id="safetyBuffer"
+                        min={0}
+                        max={120}
+                        step={5}
+                        value={[settings.safetyBuffer]}
+                        onValueChange={(value) => {
+                          handleSettingsChange({ safetyBuffer: value[0]! });
+                        }}
+                        className="flex-1"
+                      />
+                      <span className="w-16 text-right text-sm text-muted-foreground">
+                        +{settings.safetyBuffer}min
+                      </span>
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {settings.conservativeMode
+                      ? "Assumes you break down alcohol slowly and adds a safety buffer on top."
+                      : "Uses your own elimination rate without any safety margin."}
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="standardDrink">Standard Drink</Label>
+                  <Select
+                    value={settings.standardDrink}
+                    onValueChange={(value: StandardDrink) => {
+                      handleSettingsChange({ standardDrink: value });
+                    }}
+                  >
+                    <SelectTrigger id="standardDrink">
+                      <SelectValue placeholder="Select definition" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(STANDARD_DRINKS).map(
+                        ([value, { label }]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ),
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="bacUnit">BAC Unit</Label>
+                  <Select
+                    value={settings.bacUnit}
+                    onValueChange={(value: BacUnit) => {
+                      handleSettingsChange({ bacUnit: value });
+                    }}
+                  >
+                    <SelectTrigger id="bacUnit">
+                      <SelectValue placeholder="Select BAC unit" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(BAC_UNITS).map(([value, { label }]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {settings.bacUnit === "brac" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="bloodBreathRatio">Blood/Breath Ratio</Label>
+                    <div className="flex items-center gap-4">
+                      <Slider
+                        id="bloodBreathRatio"
+                        min={2000}
+                        max={2400}
+                        step={50}
+                        value={[settings.bloodBreathRatio]}
+                        onValueChange={(value) => {
+                          handleSettingsChange({ bloodBreathRatio: value[0]! });
+                        }}
+                        className="flex-1"
+                      />
+                      <span className="w-16 text-right text-sm text-muted-foreground">
+                        {settings.bloodBreathRatio}:1
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      2100:1 is used in the US and most of Europe, 2300:1 in the
+                      UK.
+                    </p>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="units">Units</Label>
+                  <Select
+                    value={settings.units}
+                    onValueChange={(value: UnitSystem) => {
+                      handleSettingsChange({ units: value });
+                    }}
+                  >
+                    <SelectTrigger id="units">
+                      <SelectValue placeholder="Select units" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="metric">Metric (ml, kg)</SelectItem>
+                      <SelectItem value="us">
+                        US imperial (fl oz, lb)
+                      </SelectItem>
+                      <SelectItem value="uk">
+                        UK imperial (fl oz, lb)
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
 
                 <div className="space-y-2">
@@ -586,12 +1227,144 @@ export default function Home({}: Route.ComponentProps) {
                     </SelectContent>
                   </Select>
                 </div>
+
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="justify-between px-0 hover:bg-transparent"
+                  onClick={() => {
+                    setShowAdvancedSettings(!showAdvancedSettings);
+                  }}
+                >
+                  Advanced
+                  <ChevronDown
+                    className={cn(
+                      "h-4 w-4 transition-transform",
+                      showAdvancedSettings && "rotate-180",
+                    )}
+                  />
+                </Button>
+
+                {showAdvancedSettings && (
+                  <div className="grid gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="absorptionHalfTime">
+                        Absorption Half-Time (min)
+                      </Label>
+                      <div className="flex items-center gap-4">
+                        <Slider
+                          id="absorptionHalfTime"
+                          min={5}
+                          max={45}
+                          step={1}
+                          value={[settings.absorptionHalfTime]}
+                          onValueChange={(value) => {
+                            handleSettingsChange({
+                              absorptionHalfTime: value[0]!,
+                            });
+                          }}
+                          className="flex-1"
+                        />
+                        <span className="w-16 text-right text-sm text-muted-foreground">
+                          {settings.absorptionHalfTime}min
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Lower on an empty stomach, higher after a meal.
+                      </p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="rFactorMode">Widmark r-Factor</Label>
+                      <Select
+                        value={
+                          settings.customRFactor === undefined
+                            ? "auto"
+                            : "custom"
+                        }
+                        onValueChange={(value: "auto" | "custom") => {
+                          handleSettingsChange({
+                            customRFactor:
+                              value === "custom"
+                                ? Number(calculateRFactor(settings).toFixed(2))
+                                : undefined,
+                          });
+                        }}
+                      >
+                        <SelectTrigger id="rFactorMode">
+                          <SelectValue placeholder="Select r-factor source" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">
+                            From gender and body water model
+                          </SelectItem>
+                          <SelectItem value="custom">Custom</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {settings.customRFactor === undefined ? (
+                        <p className="text-xs text-muted-foreground">
+                          Currently {calculateRFactor(settings).toFixed(2)}.
+                        </p>
+                      ) : (
+                        <div className="flex items-center gap-4">
+                          <Slider
+                            id="customRFactor"
+                            min={R_FACTOR_RANGE[0]}
+                            max={R_FACTOR_RANGE[1]}
+                            step={0.01}
+                            value={[settings.customRFactor]}
+                            onValueChange={(value) => {
+                              handleSettingsChange({
+                                customRFactor: value[0]!,
+                              });
+                            }}
+                            className="flex-1"
+                          />
+                          <span className="w-16 text-right text-sm text-muted-foreground">
+                            {settings.customRFactor.toFixed(2)}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="eliminationRate">
+                        Elimination Rate (%/h)
+                      </Label>
+                      <div className="flex items-center gap-4">
+                        <Slider
+                          id="eliminationRate"
+                          min={ELIMINATION_RATE_RANGE[0]}
+                          max={ELIMINATION_RATE_RANGE[1]}
+                          step={0.001}
+                          value={[settings.eliminationRate]}
+                          onValueChange={(value) => {
+                            handleSettingsChange({
+                              eliminationRate: value[0]!,
+                            });
+                          }}
+                          className="flex-1"
+                        />
+                        <span className="w-16 text-right text-sm text-muted-foreground">
+                          {settings.eliminationRate.toFixed(3)}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        How fast your body breaks down alcohol. The average is{" "}
+                        {METABOLISM_RATE.toFixed(3)}%/h.
+                      </p>
+                    </div>
+                  </div>
+                )}
               </div>
               <DialogFooter className="flex flex-col gap-2 sm:flex-row sm:justify-between sm:gap-0">
                 <Button
                   variant="destructive"
                   onClick={() => {
                     setDrinks([]);
+                    setReadings([]);
+                    setPlannedDrinks([]);
                     toast({
                       title: "Session Cleared",
                       description:
@@ -616,7 +1389,20 @@ export default function Home({}: Route.ComponentProps) {
         </div>
       </header>
       <main className="space-y-6 md:space-y-8">
-        <div className="grid gap-3 md:gap-4 md:grid-cols-3">
+        <SafetyBanner
+          peakWarning={peakWarning}
+          rapidDrinking={
+            standardDrinksLastHour > settings.rapidDrinkingLimit
+              ? {
+                  count: standardDrinksLastHour,
+                  limit: settings.rapidDrinkingLimit,
+                  unit: STANDARD_DRINKS[settings.standardDrink].unit,
+                }
+              : undefined
+          }
+          emergencyRegion={settings.emergencyRegion}
+        />
+        <div className="grid gap-3 md:gap-4 md:grid-cols-2 lg:grid-cols-4">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Current BAC</CardTitle>
@@ -629,7 +1415,7 @@ export default function Home({}: Route.ComponentProps) {
                   isOverLimit && "text-destructive",
                 )}
               >
-                {bac.toFixed(3)}%
+                {formatBac(bac, settings.bacUnit, settings.bloodBreathRatio)}
               </div>
               <p className="text-xs text-muted-foreground">
                 Blood Alcohol Content
@@ -646,9 +1432,18 @@ export default function Home({}: Route.ComponentProps) {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{timeUntilLegal}</div>
-              <p className="text-xs text-muted-foreground">
-                Legal at {legalTime}
-              </p>
+              <p className="text-xs text-muted-foreground">{legalTimeRange}</p>
+              {plannedLegalTime && (
+                <p className="text-xs text-muted-foreground">
+                  With plan: legal at {plannedLegalTime}
+                </p>
+              )}
+              {settings.conservativeMode && (
+                <p className="mt-1 flex items-center gap-1 text-xs font-medium text-amber-600 dark:text-amber-500">
+                  <ShieldCheck className="h-3 w-3" />
+                  Slowest elimination rate + {settings.safetyBuffer} min buffer
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -661,18 +1456,89 @@ export default function Home({}: Route.ComponentProps) {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{timeUntilSober}</div>
-              <p className="text-xs text-muted-foreground">
-                Sober at {soberTime}
-              </p>
+              <p className="text-xs text-muted-foreground">{soberTimeRange}</p>
+              {plannedSoberTime && (
+                <p className="text-xs text-muted-foreground">
+                  With plan: sober at {plannedSoberTime}
+                </p>
+              )}
             </CardContent>
           </Card>
+
+          <RemainingDrinksCard
+            drinks={drinks}
+            settings={settings}
+            currentTime={currentTime}
+            timeFormatter={soberTimeFormatter}
+            units={settings.units}
+          />
         </div>
 
+        <PacingCard
+          drinks={drinks}
+          profile={settings}
+          currentTime={currentTime}
+          timeFormatter={soberTimeFormatter}
+          units={settings.units}
+        />
+
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between">
             <CardTitle>BAC Over Time</CardTitle>
+            <div className="flex items-center gap-2">
+              {isZoomed && (
+                <Button size="sm" variant="ghost" onClick={resetZoom}>
+                  Reset Zoom
+                </Button>
+              )}
+              <Select
+                value={chartRange}
+                onValueChange={(value: ChartRange) => {
+                  setChartRange(value);
+                  resetZoom();
+                }}
+              >
+                <SelectTrigger className="h-9 w-[140px]">
+                  <SelectValue placeholder="Select range" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CHART_RANGES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <BreathalyzerDialog
+                readings={readings}
+                drinks={sessionDrinks}
+                profile={settings}
+                bloodBreathRatio={settings.bloodBreathRatio}
+                timeFormatter={drinkLogFormatter}
+                onAddReading={(reading) => {
+                  setReadings(
+                    [...readings, reading].sort(
+                      (a, b) => a.timestamp - b.timestamp,
+                    ),
+                  );
+                }}
+                onDeleteReading={(index) => {
+                  setReadings(
+                    readings.filter(
+                      (_, readingIndex) => readingIndex !== index,
+                    ),
+                  );
+                }}
+                onAcceptCalibration={(result) => {
+                  handleSettingsChange({
+                    customRFactor: Number(result.rFactor.toFixed(2)),
+                    eliminationRate: Number(result.eliminationRate.toFixed(4)),
+                  });
+                }}
+              />
+            </div>
           </CardHeader>
-          <CardContent>
+          <CardContent ref={chartContainerReference} className="touch-pan-y">
             <ChartContainer
               config={chartConfig}
               className="min-h-[200px] w-full"
@@ -696,42 +1562,143 @@ export default function Home({}: Route.ComponentProps) {
                   type="number"
                   scale="time"
                   domain={chartDomain}
-                  ticks={(() => {
-                    const [domainStart, domainEnd] = chartDomain;
-                    const duration = domainEnd - domainStart;
-                    const tickCount = 6;
-                    const interval = duration / (tickCount - 1);
-                    return Array.from(
-                      { length: tickCount },
-                      (_, index) => domainStart + interval * index,
-                    );
-                  })()}
+                  allowDataOverflow
+                  ticks={chartTicks}
                   angle={-30}
                   textAnchor="end"
                   height={60}
                 />
                 <YAxis tickLine={false} axisLine={false} tickMargin={8} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) =>
+                        payload[0] &&
+                        timeFormatter.format(
+                          (payload[0].payload as BandPoint).timestamp,
+                        )
+                      }
+                      formatter={(value, name) => (
+                        <div className="flex w-full items-center justify-between gap-4">
+                          <span className="text-muted-foreground">
+                            {chartConfig[name as "bac" | "projected"].label}
+                          </span>
+                          <span className="font-mono font-medium tabular-nums text-foreground">
+                            {Number(value).toFixed(
+                              BAC_UNITS[settings.bacUnit].digits,
+                            )}
+                            {BAC_UNITS[settings.bacUnit].suffix}
+                          </span>
+                        </div>
+                      )}
+                    />
+                  }
+                />
+                {(["severe", "critical"] as const).map((key) => (
+                  <ReferenceArea
+                    key={key}
+                    y1={toDisplayBac(
+                      DANGER_ZONES[key].from,
+                      settings.bacUnit,
+                      settings.bloodBreathRatio,
+                    )}
+                    y2={
+                      DANGER_ZONES[key].to &&
+                      toDisplayBac(
+                        DANGER_ZONES[key].to,
+                        settings.bacUnit,
+                        settings.bloodBreathRatio,
+                      )
+                    }
+                    fill={chartConfig[key].color}
+                    fillOpacity={DANGER_ZONES[key].opacity}
+                    label={{
+                      value: chartConfig[key].label,
+                      position: "insideTopLeft",
+                      fontSize: 12,
+                      fill: "hsl(var(--muted-foreground))",
+                    }}
+                    ifOverflow="hidden"
+                  />
+                ))}
                 <ReferenceLine
-                  y={settings.bacLimit}
+                  y={toDisplayBac(
+                    settings.bacLimit,
+                    settings.bacUnit,
+                    settings.bloodBreathRatio,
+                  )}
                   stroke="hsl(var(--destructive))"
                   strokeDasharray="3 3"
                   strokeWidth={2}
                 />
+                {settings.thresholds.map((threshold, index) => (
+                  <ReferenceLine
+                    key={index}
+                    y={toDisplayBac(
+                      threshold.bac,
+                      settings.bacUnit,
+                      settings.bloodBreathRatio,
+                    )}
+                    stroke="hsl(var(--chart-3))"
+                    strokeDasharray="3 3"
+                    label={{
+                      value: threshold.label,
+                      position: "insideTopRight",
+                      fontSize: 12,
+                      fill: "hsl(var(--muted-foreground))",
+                    }}
+                  />
+                ))}
                 <Area
                   type="linear"
-                  dataKey="bac"
+                  dataKey="range"
+                  stroke="none"
+                  fill="hsl(var(--chart-1))"
+                  fillOpacity={0.1}
+                  dot={false}
+                  activeDot={false}
+                  tooltipType="none"
+                  isAnimationActive={false}
+                />
+                <Area
+                  type="linear"
+                  dataKey="pastBac"
                   stroke="hsl(var(--chart-1))"
                   fill="hsl(var(--chart-1))"
                   fillOpacity={0.2}
                   strokeWidth={2}
                   dot={false}
                   activeDot={false}
-                  connectNulls={false}
+                  tooltipType="none"
+                  isAnimationActive={false}
+                />
+                <Area
+                  type="linear"
+                  dataKey="futureBac"
+                  stroke="hsl(var(--chart-1))"
+                  strokeOpacity={0.6}
+                  fill="hsl(var(--chart-1))"
+                  fillOpacity={0.08}
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  dot={false}
+                  activeDot={false}
+                  tooltipType="none"
+                  isAnimationActive={false}
+                />
+                {/* Invisible full curve that drives the tooltip and hover dot */}
+                <Area
+                  type="linear"
+                  dataKey="bac"
+                  stroke="none"
+                  fill="none"
+                  dot={false}
+                  activeDot={{ r: 4 }}
                   isAnimationActive={false}
                 />
                 <Area
                   type="linear"
-                  dataKey={({ bac, isPeak }: DataPoint) =>
+                  dataKey={({ bac, isPeak }: BandPoint) =>
                     isPeak ? bac : undefined
                   }
                   stroke="none"
@@ -743,8 +1710,117 @@ export default function Home({}: Route.ComponentProps) {
                     strokeWidth: 2,
                   }}
                   activeDot={false}
+                  tooltipType="none"
                   isAnimationActive={false}
                 />
+                {projectedChartData && (
+                  <Area
+                    type="linear"
+                    data={projectedChartData}
+                    dataKey="bac"
+                    name="projected"
+                    stroke="hsl(var(--chart-4))"
+                    fill="none"
+                    strokeWidth={2}
+                    strokeDasharray="6 4"
+                    dot={false}
+                    activeDot={false}
+                    isAnimationActive={false}
+                  />
+                )}
+                {readings.map((reading, index) => (
+                  <ReferenceDot
+                    key={index}
+                    x={reading.timestamp}
+                    y={toDisplayBac(
+                      readingToBac(reading, settings.bloodBreathRatio),
+                      settings.bacUnit,
+                      settings.bloodBreathRatio,
+                    )}
+                    r={5}
+                    fill="hsl(var(--chart-2))"
+                    stroke="white"
+                    strokeWidth={2}
+                    ifOverflow="extendDomain"
+                  />
+                ))}
+                {sessionDrinks.map((drink, index) => (
+                  <ReferenceDot
+                    key={index}
+                    x={drink.timestamp}
+                    y={0}
+                    r={6}
+                    fill="hsl(var(--chart-3))"
+                    stroke="white"
+                    strokeWidth={2}
+                    className="cursor-pointer"
+                    onClick={() => {
+                      setSelectedDrinkIndex(index);
+                    }}
+                  />
+                ))}
+                <ReferenceLine
+                  x={currentTime}
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeDasharray="2 2"
+                  label={{
+                    value: "Now",
+                    position: "insideTopLeft",
+                    fontSize: 12,
+                    fill: "hsl(var(--muted-foreground))",
+                  }}
+                />
+                {/* The conservative estimate follows the slowest curve plus the
+                    buffer, so it sits on the limit line rather than the curve */}
+                {legalAt > currentTime && (
+                  <ReferenceDot
+                    x={legalAt}
+                    y={toDisplayBac(
+                      settings.bacLimit,
+                      settings.bacUnit,
+                      settings.bloodBreathRatio,
+                    )}
+                    r={4}
+                    fill={
+                      settings.conservativeMode
+                        ? "white"
+                        : "hsl(var(--destructive))"
+                    }
+                    stroke={
+                      settings.conservativeMode
+                        ? "hsl(var(--destructive))"
+                        : "white"
+                    }
+                    strokeWidth={2}
+                    label={{
+                      value: `${settings.conservativeMode ? "Legal (conservative)" : "Legal"} ${timeFormatter.format(legalAt)}`,
+                      position: "top",
+                      fontSize: 12,
+                      fill: "hsl(var(--foreground))",
+                    }}
+                  />
+                )}
+                {bacCurve.soberAt !== undefined &&
+                  bacCurve.soberAt > currentTime && (
+                    <ReferenceDot
+                      x={bacCurve.soberAt}
+                      y={0}
+                      r={4}
+                      fill="hsl(var(--chart-2))"
+                      stroke="white"
+                      strokeWidth={2}
+                      label={{
+                        value: `Sober ${timeFormatter.format(bacCurve.soberAt)}`,
+                        position: "top",
+                        fontSize: 12,
+                        fill: "hsl(var(--foreground))",
+                      }}
+                    />
+                  )}
+                <ChartLegend
+                  payload={legendPayload}
+                  content={<ChartLegendContent className="flex-wrap" />}
+                />
               </AreaChart>
             </ChartContainer>
           </CardContent>
@@ -753,84 +1829,236 @@ export default function Home({}: Route.ComponentProps) {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between">
             <CardTitle>Drink Log</CardTitle>
-            <Dialog open={open} onOpenChange={setOpen}>
-              <DialogTrigger asChild>
-                <Button size="sm">
-                  <Plus className="mr-2 h-4 w-4" />
-                  Add Drink
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Add New Drink</DialogTitle>
-                  <DialogDescription>
-                    Enter the details of your drink below. You should add the
-                    drink when you just finished it.
-                  </DialogDescription>
-                </DialogHeader>
-                <form onSubmit={handleAddDrink}>
-                  <div className="grid gap-4 py-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="volume">Volume (ml)</Label>
-                      <div className="flex items-center gap-4">
-                        <Slider
-                          id="volume"
-                          min={30}
-                          max={500}
-                          step={10}
-                          value={[newDrink.volume ?? 330]}
-                          onValueChange={(value) => {
+            <div className="flex items-center gap-2">
+              <PlannerDialog
+                plannedDrinks={plannedDrinks}
+                timeFormatter={drinkLogFormatter}
+                units={settings.units}
+                onAddPlannedDrink={(drink) => {
+                  setPlannedDrinks(
+                    [...plannedDrinks, drink].sort(
+                      (a, b) => a.timestamp - b.timestamp,
+                    ),
+                  );
+                }}
+                onDeletePlannedDrink={(index) => {
+                  setPlannedDrinks(
+                    plannedDrinks.filter(
+                      (_, drinkIndex) => drinkIndex !== index,
+                    ),
+                  );
+                }}
+                onLogPlannedDrink={(index) => {
+                  const drink = {
+                    ...plannedDrinks[index]!,
+                    timestamp: currentTime,
+                  };
+                  const updatedDrinks = [...drinks, drink];
+                  setDrinks(updatedDrinks);
+                  setPlannedDrinks(
+                    plannedDrinks.filter(
+                      (_, drinkIndex) => drinkIndex !== index,
+                    ),
+                  );
+                  toastDrinkAdded(drink, updatedDrinks);
+                }}
+              />
+              <CocktailBuilderDialog
+                units={settings.units}
+                standardDrink={settings.standardDrink}
+                onLogDrink={(mixedDrink) => {
+                  const drink = { ...mixedDrink, timestamp: currentTime };
+                  const updatedDrinks = [...drinks, drink].sort(
+                    (a, b) => a.timestamp - b.timestamp,
+                  );
+                  setDrinks(updatedDrinks);
+                  toastDrinkAdded(drink, updatedDrinks);
+                }}
+              />
+              <Dialog
+                open={open}
+                onOpenChange={(isOpen) => {
+                  if (isOpen) {
+                    setNewDrinkTiming("finished");
+                    setNewDrinkShare("single");
+                    setNewDrinkStartTime(
+                      toTimeInputValue(Date.now() - 30 * 60 * 1000),
+                    );
+                    setNewDrinkTime(toTimeInputValue(Date.now()));
+                  }
+                  setOpen(isOpen);
+                }}
+              >
+                <DialogTrigger asChild>
+                  <Button size="sm">
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Drink
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-h-[90vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>Add New Drink</DialogTitle>
+                    <DialogDescription>
+                      Enter the details of your drink below. Set when you drank
+                      it, or keep it open while you are still drinking.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <form onSubmit={handleAddDrink}>
+                    <div className="grid gap-4 py-4">
+                      <BeveragePicker
+                        current={{
+                          name: newDrink.name ?? "",
+                          volume: newDrink.volume ?? 330,
+                          alcoholPercentage: newDrink.alcoholPercentage ?? 5,
+                        }}
+                        units={settings.units}
+                        onSelect={(beverage) => {
+                          setNewDrink(beverage);
+                        }}
+                      />
+                      <div className="space-y-2">
+                        <Label htmlFor="drinkName">Name (optional)</Label>
+                        <Input
+                          id="drinkName"
+                          placeholder="e.g. House red"
+                          value={newDrink.name ?? ""}
+                          onChange={(event) => {
                             setNewDrink({
                               ...newDrink,
-                              volume: value[0],
+                              name: event.target.value,
                             });
                           }}
-                          className="flex-1"
                         />
-                        <span className="w-16 text-right text-sm text-muted-foreground">
-                          {newDrink.volume}ml
-                        </span>
                       </div>
-                      <div className="flex justify-between text-xs text-muted-foreground">
-                        <span>Shot</span>
-                        <span>Small Beer</span>
-                        <span>Large Beer</span>
+                      <div className="space-y-2">
+                        <Label htmlFor="drinkShare">Serving</Label>
+                        <Select
+                          value={newDrinkShare}
+                          onValueChange={(value: DrinkShare) => {
+                            setNewDrinkShare(value);
+                          }}
+                        >
+                          <SelectTrigger id="drinkShare">
+                            <SelectValue placeholder="Select serving" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="single">Just mine</SelectItem>
+                            <SelectItem value="people">
+                              Shared equally with others
+                            </SelectItem>
+                            <SelectItem value="fraction">
+                              Shared, I drank part of it
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
                       </div>
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="alcoholPercentage">Alcohol %</Label>
-                      <div className="flex items-center gap-4">
-                        <Slider
-                          id="alcoholPercentage"
-                          min={2}
-                          max={45}
-                          step={0.5}
-                          value={[newDrink.alcoholPercentage ?? 5]}
-                          onValueChange={(value) => {
-                            setNewDrink({
-                              ...newDrink,
-                              alcoholPercentage: value[0],
-                            });
+                      {newDrinkShare === "people" && (
+                        <div className="space-y-2">
+                          <Label htmlFor="drinkPeople">
+                            People Sharing (including you)
+                          </Label>
+                          <Input
+                            id="drinkPeople"
+                            type="number"
+                            min={2}
+                            max={50}
+                            step={1}
+                            required
+                            value={newDrinkPeople}
+                            onChange={(event) => {
+                              setNewDrinkPeople(event.target.value);
+                            }}
+                          />
+                        </div>
+                      )}
+                      {newDrinkShare === "fraction" && (
+                        <div className="space-y-2">
+                          <Label htmlFor="drinkSharePercentage">
+                            Your Share (%)
+                          </Label>
+                          <Input
+                            id="drinkSharePercentage"
+                            type="number"
+                            min={1}
+                            max={100}
+                            step="any"
+                            required
+                            value={newDrinkSharePercentage}
+                            onChange={(event) => {
+                              setNewDrinkSharePercentage(event.target.value);
+                            }}
+                          />
+                        </div>
+                      )}
+                      <DrinkFields
+                        isContainer={newDrinkShare !== "single"}
+                        volume={newDrink.volume ?? 330}
+                        alcoholPercentage={newDrink.alcoholPercentage ?? 5}
+                        units={settings.units}
+                        onChange={(values) => {
+                          setNewDrink({ ...newDrink, ...values });
+                        }}
+                      />
+                      <div className="space-y-2">
+                        <Label htmlFor="drinkTiming">Timing</Label>
+                        <Select
+                          value={newDrinkTiming}
+                          onValueChange={(value: DrinkTiming) => {
+                            setNewDrinkTiming(value);
                           }}
-                          className="flex-1"
-                        />
-                        <span className="w-16 text-right text-sm text-muted-foreground">
-                          {newDrink.alcoholPercentage?.toFixed(1)}%
-                        </span>
+                        >
+                          <SelectTrigger id="drinkTiming">
+                            <SelectValue placeholder="Select timing" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="finished">
+                              Finished in one go
+                            </SelectItem>
+                            <SelectItem value="period">
+                              Drunk over a period
+                            </SelectItem>
+                            <SelectItem value="inProgress">
+                              Still drinking
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
                       </div>
-                      <div className="flex justify-between text-xs text-muted-foreground">
-                        <span>Light Beer</span>
-                        <span>Wine</span>
-                        <span>Spirit</span>
+                      <div className="grid grid-cols-2 gap-4">
+                        {newDrinkTiming !== "finished" && (
+                          <div className="space-y-2">
+                            <Label htmlFor="drinkStartTime">Started At</Label>
+                            <Input
+                              id="drinkStartTime"
+                              type="time"
+                              value={newDrinkStartTime}
+                              onChange={(event) => {
+                                setNewDrinkStartTime(event.target.value);
+                              }}
+                            />
+                          </div>
+                        )}
+                        {newDrinkTiming !== "inProgress" && (
+                          <div className="space-y-2">
+                            <Label htmlFor="drinkTime">Finished At</Label>
+                            <Input
+                              id="drinkTime"
+                              type="time"
+                              value={newDrinkTime}
+                              onChange={(event) => {
+                                setNewDrinkTime(event.target.value);
+                              }}
+                            />
+                          </div>
+                        )}
                       </div>
                     </div>
-                  </div>
-                  <DialogFooter>
-                    <Button type="submit">Add Drink</Button>
-                  </DialogFooter>
-                </form>
-              </DialogContent>
-            </Dialog>
+                    <DialogFooter>
+                      <Button type="submit">Add Drink</Button>
+                    </DialogFooter>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
           </CardHeader>
           <CardContent>
             {drinks.length === 0 ? (
@@ -844,40 +2072,108 @@ export default function Home({}: Route.ComponentProps) {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Time</TableHead>
-                    <TableHead>Volume (ml)</TableHead>
+                    <TableHead>Drink</TableHead>
                     <TableHead>Alcohol %</TableHead>
+                    <TableHead>Alcohol</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {drinks.map((drink, index) => (
                     <TableRow key={index}>
                       <TableCell>
-                        {drinkLogFormatter.format(drink.timestamp)}
+                        {formatDrinkTime(drink, drinkLogFormatter)}
+                      </TableCell>
+                      <TableCell>
+                        {formatDrinkLabel(drink, settings.units)}
+                      </TableCell>
+                      <TableCell>
+                        {formatAlcoholPercentage(drink.alcoholPercentage)}
                       </TableCell>
-                      <TableCell>{drink.volume}</TableCell>
                       <TableCell className="flex items-center justify-between">
-                        <span>{drink.alcoholPercentage}%</span>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                          onClick={() => {
-                            setDrinkToDelete({ drink, index });
-                          }}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        <span>
+                          {formatAlcohol([drink], settings.standardDrink)}
+                        </span>
+                        <div className="flex">
+                          {drink.isInProgress && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-muted-foreground"
+                              title="Finished"
+                              onClick={() => {
+                                handleFinishDrink(index);
+                              }}
+                            >
+                              <Check className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-muted-foreground"
+                            title="Edit"
+                            onClick={() => {
+                              setSelectedDrinkIndex(index);
+                            }}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                            title="Delete"
+                            onClick={() => {
+                              setDrinkToDelete({ drink, index });
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
                       </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={3}>Session Total</TableCell>
+                    <TableCell>
+                      {formatAlcohol(drinks, settings.standardDrink)}
+                    </TableCell>
+                  </TableRow>
+                </TableFooter>
               </Table>
             )}
           </CardContent>
         </Card>
       </main>
+      {selectedDrinkIndex !== undefined && drinks[selectedDrinkIndex] && (
+        <DrinkDetailsDialog
+          key={selectedDrinkIndex}
+          drink={drinks[selectedDrinkIndex]}
+          timeFormatter={drinkLogFormatter}
+          units={settings.units}
+          standardDrink={settings.standardDrink}
+          onClose={() => {
+            setSelectedDrinkIndex(undefined);
+          }}
+          onSave={(drink) => {
+            handleUpdateDrink(selectedDrinkIndex, drink);
+            setSelectedDrinkIndex(undefined);
+          }}
+          onDelete={() => {
+            setDrinkToDelete({
+              drink: drinks[selectedDrinkIndex]!,
+              index: selectedDrinkIndex,
+            });
+            setSelectedDrinkIndex(undefined);
+          }}
+        />
+      )}
+
       <DeleteDialog
         drink={drinkToDelete?.drink}
+        units={settings.units}
         onCancel={() => {
           setDrinkToDelete(undefined);
         }}